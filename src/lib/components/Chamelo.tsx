@@ -1,17 +1,24 @@
-import { useState, useEffect, useRef } from 'react'
-import type { CSSProperties, ReactNode } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
+import type { CSSProperties, ReactNode, SyntheticEvent } from 'react'
 import { useColorExtraction } from '../hooks/useColorExtraction'
+import { useObjectUrl } from '../hooks/useObjectUrl'
+import { extractEdgeColors } from '../utils/colorExtractor'
+import type { RGB } from '../utils/colorExtractor'
 import { toRgba } from '../utils/colorHarmony'
+import type { ContrastAlgorithm } from '../utils/colorHarmony'
+import { describePalette } from '../utils/colorNames'
+import type { EdgeColors } from '../utils/edgeColors'
+import type { ColorRegion } from '../utils/region'
 
 export interface ChameloProps {
-  /** 이미지 소스 URL */
-  imageSrc: string
+  /** 이미지 소스 URL 또는 Blob/File */
+  imageSrc: string | Blob
   /** 배너 텍스트 */
   text?: string
   /** 배너 위치 */
   position?: 'top' | 'bottom'
-  /** 추출할 색상 수 (기본: 5) */
-  colorCount?: number
+  /** 추출할 색상 수, 'auto'면 자동 선택 (기본: 5) */
+  colorCount?: number | 'auto'
   /** 배너 스타일 */
   bannerStyle?: 'solid' | 'gradient' | 'blur'
   /** 그라데이션 방향 */
@@ -24,12 +31,26 @@ export interface ChameloProps {
   textAlign?: 'left' | 'center' | 'right'
   /** 배너 투명도 (0-1) */
   opacity?: number
-  /** 커스텀 렌더 함수 */
-  renderContent?: (colors: { background: string; text: string }) => ReactNode
+  /** 커스텀 렌더 함수 (description은 describeColors일 때 색상 설명, 아니면 빈 문자열) */
+  renderContent?: (colors: {
+    background: string
+    text: string
+    description: string
+  }) => ReactNode
   /** 어두운 배경 선호 */
   preferDark?: boolean
+  /**
+   * 텍스트 색상의 대비 판단 방식 (기본: 'wcag2')
+   * apca면 fontSize(px)와 텍스트 굵기에 맞는 Lc를 목표로 함
+   */
+  contrastAlgorithm?: ContrastAlgorithm
   /** 이미지 alt 텍스트 */
   imageAlt?: string
+  /**
+   * 추출한 색상을 'muted teal, dark red and light gray' 같은 설명으로 생성
+   * imageAlt가 비어 있으면 alt로 사용하고 renderContent에도 전달 (기본: false)
+   */
+  describeColors?: boolean
   /** 컨테이너 className */
   className?: string
   /** 이미지 className */
@@ -38,12 +59,163 @@ export interface ChameloProps {
   bannerClassName?: string
   /** 이미지 object-fit */
   objectFit?: 'cover' | 'contain' | 'fill' | 'none'
+  /**
+   * 이미지가 컨테이너를 다 덮지 않을 때(contain, none) 빈 영역을 가장자리 색상으로 채움
+   * - solid: 네 변 색상의 평균
+   * - gradient: 각 변의 색상이 해당 방향으로 이어지는 그라데이션
+   */
+  edgeFill?: 'none' | 'solid' | 'gradient'
+  /** 작은 이미지로 구한 색상을 먼저 표시한 뒤 정밀 추출 결과로 전환 (기본: false) */
+  progressive?: boolean
   /** 로딩 중 표시 여부 */
   showLoading?: boolean
   /** 색상 추출 완료 콜백 */
   onColorsExtracted?: (colors: { background: string; text: string }) => void
 }
 
+interface ImageMetrics {
+  naturalWidth: number
+  naturalHeight: number
+  renderedWidth: number
+  renderedHeight: number
+}
+
+/** 로드가 끝난 이미지와 그 크기 (소스와 영역이 항상 같은 이미지를 가리키도록 함께 보관) */
+interface LoadedImage {
+  src: string
+  metrics: ImageMetrics
+}
+
+function measureImage(img: HTMLImageElement): ImageMetrics {
+  return {
+    naturalWidth: img.naturalWidth,
+    naturalHeight: img.naturalHeight,
+    renderedWidth: img.clientWidth,
+    renderedHeight: img.clientHeight,
+  }
+}
+
+function isSameMetrics(a: ImageMetrics, b: ImageMetrics): boolean {
+  return (
+    a.naturalWidth === b.naturalWidth &&
+    a.naturalHeight === b.naturalHeight &&
+    a.renderedWidth === b.renderedWidth &&
+    a.renderedHeight === b.renderedHeight
+  )
+}
+
+/**
+ * 배너가 덮는 영역을 원본 이미지 좌표로 변환
+ * object-fit에 따른 스케일/오프셋을 반영하여 배너 아래 픽셀만 추출
+ */
+function getBannerRegion(
+  metrics: ImageMetrics | null,
+  position: 'top' | 'bottom',
+  bannerHeight: number | string,
+  objectFit: 'cover' | 'contain' | 'fill' | 'none'
+): ColorRegion {
+  if (!metrics) return position
+
+  const { naturalWidth, naturalHeight, renderedWidth, renderedHeight } = metrics
+
+  if (!naturalWidth || !naturalHeight || !renderedWidth || !renderedHeight) {
+    return position
+  }
+
+  // 배너 높이를 렌더링 픽셀로 변환 (px, % 외 단위는 프리셋으로 대체)
+  let heightPx: number
+  if (typeof bannerHeight === 'number') {
+    heightPx = bannerHeight
+  } else if (/^[\d.]+px$/.test(bannerHeight)) {
+    heightPx = parseFloat(bannerHeight)
+  } else if (/^[\d.]+%$/.test(bannerHeight)) {
+    heightPx = (parseFloat(bannerHeight) / 100) * renderedHeight
+  } else {
+    return position
+  }
+  heightPx = Math.min(heightPx, renderedHeight)
+
+  // 렌더링 좌표 → 원본 좌표 스케일 및 오프셋
+  let scaleX: number
+  let scaleY: number
+  switch (objectFit) {
+    case 'fill':
+      scaleX = renderedWidth / naturalWidth
+      scaleY = renderedHeight / naturalHeight
+      break
+    case 'contain':
+      scaleX = scaleY = Math.min(
+        renderedWidth / naturalWidth,
+        renderedHeight / naturalHeight
+      )
+      break
+    case 'none':
+      scaleX = scaleY = 1
+      break
+    case 'cover':
+    default:
+      scaleX = scaleY = Math.max(
+        renderedWidth / naturalWidth,
+        renderedHeight / naturalHeight
+      )
+  }
+  const offsetX = (renderedWidth - naturalWidth * scaleX) / 2
+  const offsetY = (renderedHeight - naturalHeight * scaleY) / 2
+
+  const top = position === 'top' ? 0 : renderedHeight - heightPx
+  const x0 = Math.max(0, -offsetX / scaleX)
+  const x1 = Math.min(naturalWidth, (renderedWidth - offsetX) / scaleX)
+  const y0 = Math.max(0, (top - offsetY) / scaleY)
+  const y1 = Math.min(naturalHeight, (top + heightPx - offsetY) / scaleY)
+
+  // 배너가 이미지 바깥(레터박스)에만 걸치면 가장 가까운 가장자리 사용
+  if (y1 <= y0) {
+    return position
+  }
+
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
+}
+
+/** 기본 배너 텍스트 굵기 */
+const BANNER_FONT_WEIGHT = 500
+
+/** 배너 그라데이션의 색상 정지점 CSS 변수 (@property로 등록해 transition 가능) */
+const GRADIENT_STOP_VARIABLES = ['--chamelo-stop-1', '--chamelo-stop-2', '--chamelo-stop-3']
+
+const GRADIENT_STOP_PROPERTIES = GRADIENT_STOP_VARIABLES.map(
+  name => `@property ${name} { syntax: '<color>'; inherits: false; initial-value: transparent; }`
+).join('\n')
+
+/**
+ * 가장자리 색상으로 컨테이너 배경 생성
+ * 색상을 찾지 못한 변은 평균 색상으로 대체
+ */
+function getEdgeFillBackground(
+  edgeColors: EdgeColors,
+  edgeFill: 'solid' | 'gradient'
+): string | undefined {
+  const sides = [edgeColors.top, edgeColors.right, edgeColors.bottom, edgeColors.left]
+  const found = sides.filter(c => c !== null).map(c => c.rgb)
+  if (found.length === 0) return undefined
+
+  const average: RGB = {
+    r: Math.round(found.reduce((sum, c) => sum + c.r, 0) / found.length),
+    g: Math.round(found.reduce((sum, c) => sum + c.g, 0) / found.length),
+    b: Math.round(found.reduce((sum, c) => sum + c.b, 0) / found.length),
+  }
+
+  if (edgeFill === 'solid') return toRgba(average, 1)
+
+  const [top, right, bottom, left] = sides.map(c => c?.rgb ?? average)
+
+  // 위/아래 그라데이션을 좌/우 그라데이션 위에 겹쳐 네 방향으로 이어지게 함
+  return [
+    `linear-gradient(to bottom, ${toRgba(top, 1)}, ${toRgba(top, 0)} 50%, ` +
+      `${toRgba(bottom, 0)} 50%, ${toRgba(bottom, 1)})`,
+    `linear-gradient(to right, ${toRgba(left, 1)}, ${toRgba(right, 1)})`,
+  ].join(', ')
+}
+
 export function Chamelo({
   imageSrc,
   text,
@@ -57,31 +229,97 @@ export function Chamelo({
   opacity = 0.6,
   renderContent,
   preferDark = false,
+  contrastAlgorithm = 'wcag2',
   imageAlt = '',
+  describeColors = false,
   className = '',
   imageClassName = '',
   bannerClassName = '',
   objectFit = 'cover',
+  edgeFill = 'none',
+  progressive = false,
   showLoading = true,
   onColorsExtracted,
 }: ChameloProps) {
-  const [imageLoaded, setImageLoaded] = useState(false)
-  const [currentSrc, setCurrentSrc] = useState<string | null>(null)
+  // 새 소스가 로드될 때까지는 이전 이미지의 소스와 크기로 색상을 유지
+  const [loadedImage, setLoadedImage] = useState<LoadedImage | null>(null)
+  // 어느 소스의 가장자리 색상인지 함께 보관해 소스가 바뀌면 이전 이미지의 색상을 쓰지 않음
+  const [edgeResult, setEdgeResult] = useState<{ src: string; colors: EdgeColors } | null>(null)
   const imgRef = useRef<HTMLImageElement>(null)
 
+  // Blob/File은 Object URL로 표시하고 같은 URL에서 색상 추출
+  const displaySrc = useObjectUrl(imageSrc)
+
+  // 로드가 끝난 이미지에서만 색상 추출 (소스와 영역이 한 번에 바뀌어 추출도 한 번만 실행)
+  const currentSrc = loadedImage?.src ?? null
+  const imageMetrics = loadedImage?.metrics ?? null
+
+  // 배너 아래 영역에서만 색상 추출
+  const region = useMemo(
+    () => getBannerRegion(imageMetrics, position, bannerHeight, objectFit),
+    [imageMetrics, position, bannerHeight, objectFit]
+  )
+
+  // px 외 단위는 APCA 목표 계산 시 기본 크기로 취급
+  const fontSizePx =
+    typeof fontSize === 'number'
+      ? fontSize
+      : /^[\d.]+px$/.test(fontSize)
+        ? parseFloat(fontSize)
+        : undefined
+
   const { bannerColors, isLoading, colors: extractedColors } = useColorExtraction(currentSrc, {
     colorCount,
     preferDark,
     useGradient: bannerStyle === 'gradient',
     gradientDirection,
+    contrastAlgorithm,
+    fontSize: fontSizePx,
+    fontWeight: BANNER_FONT_WEIGHT,
+    region,
+    progressive,
+    includeNames: describeColors,
   })
 
-  // 이미지 로드 완료 후 색상 추출 시작
+  const colorDescription = describeColors ? describePalette(extractedColors) : ''
+
+  // 컨테이너 크기가 바뀌면 배너 영역을 다시 계산
   useEffect(() => {
-    if (imageLoaded && imageSrc) {
-      setCurrentSrc(imageSrc)
-    }
-  }, [imageLoaded, imageSrc])
+    const img = imgRef.current
+    if (!img || typeof ResizeObserver === 'undefined') return
+
+    const observer = new ResizeObserver(() => {
+      if (!img.complete) return
+      const metrics = measureImage(img)
+      // 새 소스를 로드하는 중에는 이전 이미지의 크기를 유지
+      setLoadedImage(prev =>
+        prev && prev.src === displaySrc && !isSameMetrics(prev.metrics, metrics)
+          ? { src: prev.src, metrics }
+          : prev
+      )
+    })
+    observer.observe(img)
+
+    return () => observer.disconnect()
+  }, [displaySrc])
+
+  // 이미지가 컨테이너를 다 덮지 않는 경우에만 가장자리 색상 추출
+  const fillsEdges = edgeFill !== 'none' && (objectFit === 'contain' || objectFit === 'none')
+  const edgeColors = edgeResult?.src === currentSrc ? edgeResult.colors : null
+
+  useEffect(() => {
+    if (!fillsEdges || !currentSrc) return
+
+    // 배너 색상 추출은 배너 아래 영역만 그리므로 전체 이미지의 가장자리는 따로 읽음
+    const controller = new AbortController()
+    extractEdgeColors(currentSrc, { signal: controller.signal })
+      .then(colors => setEdgeResult({ src: currentSrc, colors }))
+      .catch(() => {
+        // 배경 채우기는 부가 기능이므로 실패 시 기본 배경 유지
+      })
+
+    return () => controller.abort()
+  }, [fillsEdges, currentSrc])
 
   // 색상 추출 완료 콜백
   useEffect(() => {
@@ -93,33 +331,35 @@ export function Chamelo({
     }
   }, [bannerColors, onColorsExtracted])
 
-  const handleImageLoad = () => {
-    setImageLoaded(true)
+  const handleImageLoad = (event: SyntheticEvent<HTMLImageElement>) => {
+    if (!displaySrc) return
+    setLoadedImage({ src: displaySrc, metrics: measureImage(event.currentTarget) })
   }
 
   // 반투명 그라데이션 생성
+  // 그라데이션 자체는 transition되지 않으므로 색상 정지점을 CSS 변수로 두고 변수에 transition 적용
   const createTransparentGradient = (): string => {
-    if (!extractedColors || extractedColors.length === 0) {
-      return `rgba(0, 0, 0, ${opacity})`
-    }
-
     const directionMap = {
       horizontal: 'to right',
       vertical: 'to bottom',
       diagonal: 'to bottom right',
     }
 
-    const selectedColors = extractedColors.slice(0, 3)
-    const stops = selectedColors
-      .map((c, i) => {
-        const position = (i / (selectedColors.length - 1)) * 100
-        return `rgba(${c.rgb.r}, ${c.rgb.g}, ${c.rgb.b}, ${opacity}) ${position}%`
-      })
-      .join(', ')
+    const stops = GRADIENT_STOP_VARIABLES.map(
+      (name, i) => `var(${name}) ${(i / (GRADIENT_STOP_VARIABLES.length - 1)) * 100}%`
+    ).join(', ')
 
     return `linear-gradient(${directionMap[gradientDirection]}, ${stops})`
   }
 
+  // 색상이 부족하면 마지막 색상을 반복해 정지점 수를 고정
+  const gradientStopColors = Object.fromEntries(
+    GRADIENT_STOP_VARIABLES.map((name, i) => {
+      const color = extractedColors[Math.min(i, extractedColors.length - 1)]
+      return [name, color ? toRgba(color.rgb, opacity) : `rgba(0, 0, 0, ${opacity})`]
+    })
+  )
+
   // 배너 배경 스타일 계산
   const getBannerBackground = (): string => {
     if (!bannerColors) return `rgba(0, 0, 0, ${opacity})`
@@ -139,6 +379,9 @@ export function Chamelo({
     position: 'relative',
     overflow: 'hidden',
     width: '100%',
+    background:
+      fillsEdges && edgeColors ? getEdgeFillBackground(edgeColors, edgeFill) : undefined,
+    transition: 'background 0.3s ease',
   }
 
   const imageStyle: CSSProperties = {
@@ -166,7 +409,10 @@ export function Chamelo({
           : 'center',
     padding: '0 20px',
     fontSize: typeof fontSize === 'number' ? `${fontSize}px` : fontSize,
-    transition: 'background 0.3s ease, color 0.3s ease',
+    ...gradientStopColors,
+    transition: ['background', 'color', ...GRADIENT_STOP_VARIABLES]
+      .map(property => `${property} 0.3s ease`)
+      .join(', '),
     backdropFilter: 'blur(8px)',
     WebkitBackdropFilter: 'blur(8px)',
   }
@@ -187,20 +433,21 @@ export function Chamelo({
     <div className={`chamelo ${className}`} style={containerStyle}>
       <img
         ref={imgRef}
-        src={imageSrc}
-        alt={imageAlt}
+        src={displaySrc ?? undefined}
+        alt={imageAlt || colorDescription}
         onLoad={handleImageLoad}
         className={imageClassName}
         style={imageStyle}
         crossOrigin="anonymous"
       />
 
-      {imageLoaded && (
+      {loadedImage && (
         <div className={`chamelo__overlay ${bannerClassName}`} style={bannerStyle_}>
           {renderContent ? (
             renderContent({
               background: bannerColors?.background || '#000000',
               text: bannerColors?.text || '#ffffff',
+              description: colorDescription,
             })
           ) : (
             <span
@@ -208,7 +455,7 @@ export function Chamelo({
                 textAlign,
                 width: '100%',
                 textShadow: '0 1px 3px rgba(0,0,0,0.4)',
-                fontWeight: 500,
+                fontWeight: BANNER_FONT_WEIGHT,
               }}
             >
               {text}
@@ -237,6 +484,7 @@ export function Chamelo({
         @keyframes chamelo-spin {
           to { transform: rotate(360deg); }
         }
+        ${GRADIENT_STOP_PROPERTIES}
       `}</style>
     </div>
   )
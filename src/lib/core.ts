@@ -0,0 +1,36 @@
+// Chamelo Core - DOM/React 없이 동작하는 색상 추출
+// Node, SSR, 빌드 도구에서 디코딩된 RGBA 픽셀 버퍼로 색상 추출
+
+export {
+  extractColorsFromPixels,
+  extractColorsFromPixelsDetailed,
+} from './utils/extractionCore'
+export type {
+  RGB,
+  ExtractedColor,
+  PixelExtractionOptions,
+  PixelExtractionDiagnostics,
+} from './utils/extractionCore'
+export type { ColorSpace } from './utils/colorSpace'
+export type {
+  ColorRegion,
+  ColorRegionPreset,
+  ColorRegionRect,
+} from './utils/region'
+export { PIXEL_FILTER_PRESETS } from './utils/pixelFilter'
+export type {
+  PixelFilter,
+  PixelFilterConfig,
+  PixelFilterPredicate,
+  PixelFilterPreset,
+} from './utils/pixelFilter'
+export type { PixelWeighting } from './utils/weighting'
+export type { QuantizationAlgorithm } from './utils/quantize'
+export type { ColorCountMethod } from './utils/colorCount'
+export { deltaE2000, colorDifference } from './utils/colorMerge'
+export type { ColorDifferenceMetric } from './utils/colorMerge'
+export { nameColor, describePalette } from './utils/colorNames'
+export { getApcaContrast, getApcaTarget } from './utils/apca'
+export type { ColorName } from './utils/colorNames'
+export { extractEdgeColorsFromPixels } from './utils/edgeColors'
+export type { EdgeColorOptions, EdgeColors, EdgeSide } from './utils/edgeColors'
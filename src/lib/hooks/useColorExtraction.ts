@@ -1,109 +1,249 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { extractColors } from '../utils/colorExtractor'
-import type { ExtractedColor, ColorExtractionOptions } from '../utils/colorExtractor'
+import { extractColorsDetailed } from '../utils/colorExtractor'
+import type {
+  ExtractedColor,
+  ColorExtractionOptions,
+  ExtractionDiagnostics,
+  ImageSource,
+} from '../utils/colorExtractor'
 import { generateBannerColors } from '../utils/colorHarmony'
-import type { BannerColors } from '../utils/colorHarmony'
+import type { BannerColors, ContrastAlgorithm } from '../utils/colorHarmony'
 
 export interface UseColorExtractionOptions extends ColorExtractionOptions {
   preferDark?: boolean
   useGradient?: boolean
   gradientDirection?: 'horizontal' | 'vertical' | 'diagonal'
+  /** 배너 텍스트 색상의 대비 판단 방식 (기본: 'wcag2') */
+  contrastAlgorithm?: ContrastAlgorithm
+  /** apca일 때 목표 Lc를 정할 텍스트 크기(px)와 굵기 */
+  fontSize?: number
+  fontWeight?: number
 }
 
 export interface UseColorExtractionResult {
   colors: ExtractedColor[]
+  /** 실제 사용된 색상 수 (colorCount: 'auto'일 때 선택된 값) */
+  colorCount: number | null
+  /** 마지막 추출의 진단 정보 (샘플 수, 반복 횟수, 단계별 시간 등) */
+  diagnostics: ExtractionDiagnostics | null
   bannerColors: BannerColors | null
   isLoading: boolean
+  /** progressive 미리보기 결과를 표시한 뒤 정밀 추출 중인지 여부 */
+  isRefining: boolean
   error: Error | null
   refresh: () => void
 }
 
+/**
+ * 소스 변경 여부 비교 키
+ * 같은 URL을 가리키는 이미지 요소는 같은 소스로 취급
+ */
+export function getSourceKey(source: ImageSource | null): unknown {
+  // 렌더링 중에도 호출되므로 SSR에서 HTMLImageElement가 없는 경우를 고려
+  return typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement
+    ? source.src
+    : source
+}
+
+const functionIds = new WeakMap<object, number>()
+let nextFunctionId = 0
+
+/**
+ * 추출 옵션 비교 키
+ * 콜백과 signal은 직렬화되지 않아 키에서 빠지므로 최신 값을 ref로 참조해야 함
+ * 함수 pixelFilter는 내용을 비교할 수 없으므로 참조가 바뀌면 다른 키 (렌더링마다 새로 만들지 않도록 메모이즈 필요)
+ */
+export function getOptionsKey(options: object): string {
+  return JSON.stringify(options, (key, value) => {
+    if (key !== 'pixelFilter' || typeof value !== 'function') return value
+    let id = functionIds.get(value)
+    if (id === undefined) {
+      id = ++nextFunctionId
+      functionIds.set(value, id)
+    }
+    return `function:${id}`
+  })
+}
+
 /**
  * 이미지에서 색상을 추출하는 React 훅
  */
 export function useColorExtraction(
-  imageSrc: string | HTMLImageElement | null,
+  imageSrc: ImageSource | null,
   options: UseColorExtractionOptions = {}
 ): UseColorExtractionResult {
   const [colors, setColors] = useState<ExtractedColor[]>([])
+  const [colorCount, setColorCount] = useState<number | null>(null)
+  const [diagnostics, setDiagnostics] = useState<ExtractionDiagnostics | null>(null)
   const [bannerColors, setBannerColors] = useState<BannerColors | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const [isRefining, setIsRefining] = useState(false)
   const [error, setError] = useState<Error | null>(null)
 
-  const lastSrcRef = useRef<string | HTMLImageElement | null>(null)
+  const lastSrcRef = useRef<ImageSource | null>(null)
+  const lastOptionsKeyRef = useRef<string | null>(null)
   const mountedRef = useRef(true)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   const {
     preferDark = false,
     useGradient = true,
     gradientDirection = 'horizontal',
+    contrastAlgorithm = 'wcag2',
+    fontSize,
+    fontWeight,
     ...extractionOptions
   } = options
 
-  const extract = useCallback(async () => {
+  // 추출 옵션(영역 등)이 바뀌면 다시 추출하기 위한 비교 키
+  const optionsKey = getOptionsKey(extractionOptions)
+
+  // 콜백 등 직렬화되지 않는 옵션은 최신 값을 ref로 참조
+  const extractionOptionsRef = useRef(extractionOptions)
+  useEffect(() => {
+    extractionOptionsRef.current = extractionOptions
+  })
+
+  // bypassCache: refresh처럼 같은 소스를 다시 추출할 때 캐시된 결과를 사용하지 않음
+  const extract = useCallback(async (bypassCache = false) => {
+    // 진행 중인 이전 요청 취소
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    const isStale = () => !mountedRef.current || abortControllerRef.current !== controller
+    const extractionOptions = extractionOptionsRef.current
+
     if (!imageSrc) {
       setColors([])
+      setColorCount(null)
+      setDiagnostics(null)
       setBannerColors(null)
+      setIsLoading(false)
+      setIsRefining(false)
       return
     }
 
     setIsLoading(true)
     setError(null)
 
-    try {
-      const extractedColors = await extractColors(imageSrc, extractionOptions)
+    // 외부에서 전달한 signal도 함께 반영
+    const externalSignal = extractionOptions.signal
+    const handleExternalAbort = () => controller.abort(externalSignal?.reason)
+    if (externalSignal?.aborted) {
+      handleExternalAbort()
+    } else {
+      externalSignal?.addEventListener('abort', handleExternalAbort, { once: true })
+    }
 
-      if (!mountedRef.current) return
+    try {
+      let resolvedColorCount: number | null = null
+      const { colors: extractedColors, diagnostics: extractionDiagnostics } =
+        await extractColorsDetailed(imageSrc, {
+          ...extractionOptions,
+          cache: bypassCache ? 'none' : extractionOptions.cache,
+          signal: controller.signal,
+          onColorCountResolved: count => {
+            resolvedColorCount = count
+            extractionOptions.onColorCountResolved?.(count)
+          },
+          onProgress: (progressColors, stage) => {
+            extractionOptions.onProgress?.(progressColors, stage)
+            if (stage !== 'preview' || isStale()) return
+
+            // 미리보기 결과를 먼저 표시하고 정밀 추출 결과로 교체
+            setColors(progressColors)
+            setBannerColors(
+              generateBannerColors(progressColors, {
+                preferDark,
+                useGradient,
+                gradientDirection,
+                contrastAlgorithm,
+                fontSize,
+                fontWeight,
+              })
+            )
+            setIsLoading(false)
+            setIsRefining(true)
+          },
+        })
+
+      if (isStale()) return
 
       setColors(extractedColors)
+      setColorCount(resolvedColorCount)
+      setDiagnostics(extractionDiagnostics)
 
       const bannerColorSet = generateBannerColors(extractedColors, {
         preferDark,
         useGradient,
         gradientDirection,
+        contrastAlgorithm,
+        fontSize,
+        fontWeight,
       })
 
-      if (!mountedRef.current) return
+      if (isStale()) return
 
       setBannerColors(bannerColorSet)
     } catch (err) {
-      if (!mountedRef.current) return
+      if (isStale()) return
       setError(err instanceof Error ? err : new Error('Color extraction failed'))
     } finally {
-      if (mountedRef.current) {
+      externalSignal?.removeEventListener('abort', handleExternalAbort)
+      if (!isStale()) {
         setIsLoading(false)
+        setIsRefining(false)
       }
     }
-  }, [imageSrc, preferDark, useGradient, gradientDirection])
+  }, [
+    imageSrc,
+    preferDark,
+    useGradient,
+    gradientDirection,
+    contrastAlgorithm,
+    fontSize,
+    fontWeight,
+  ])
+
+  // 언마운트 시 진행 중인 추출 취소
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort()
+      // StrictMode 재마운트 시 다시 추출하도록 비교 기준 초기화
+      lastSrcRef.current = null
+      lastOptionsKeyRef.current = null
+    }
+  }, [])
 
   useEffect(() => {
     mountedRef.current = true
 
-    // imageSrc가 변경되었을 때만 추출
-    const srcKey = typeof imageSrc === 'string' ? imageSrc : imageSrc?.src
-    const lastSrcKey =
-      typeof lastSrcRef.current === 'string'
-        ? lastSrcRef.current
-        : lastSrcRef.current?.src
-
-    if (srcKey !== lastSrcKey) {
+    // imageSrc 또는 추출 옵션이 변경되었을 때만 추출
+    if (
+      getSourceKey(imageSrc) !== getSourceKey(lastSrcRef.current) ||
+      optionsKey !== lastOptionsKeyRef.current
+    ) {
       lastSrcRef.current = imageSrc
+      lastOptionsKeyRef.current = optionsKey
       extract()
     }
 
     return () => {
       mountedRef.current = false
     }
-  }, [imageSrc, extract])
+  }, [imageSrc, optionsKey, extract])
 
   const refresh = useCallback(() => {
-    extract()
+    extract(true)
   }, [extract])
 
   return {
     colors,
+    colorCount,
+    diagnostics,
     bannerColors,
     isLoading,
+    isRefining,
     error,
     refresh,
   }
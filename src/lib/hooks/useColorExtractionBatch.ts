@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { extractColorsBatch } from '../utils/batchExtractor'
+import type { BatchExtractionOptions, BatchItemResult } from '../utils/batchExtractor'
+import type { ImageSource } from '../utils/colorExtractor'
+import { generateBannerColors } from '../utils/colorHarmony'
+import type { BannerColors } from '../utils/colorHarmony'
+import { getOptionsKey, getSourceKey } from './useColorExtraction'
+
+export interface UseColorExtractionBatchOptions extends BatchExtractionOptions {
+  preferDark?: boolean
+  useGradient?: boolean
+  gradientDirection?: 'horizontal' | 'vertical' | 'diagonal'
+}
+
+export interface UseColorExtractionBatchResult {
+  /** 입력 순서대로의 항목별 결과 (아직 끝나지 않은 항목은 null) */
+  results: (BatchItemResult | null)[]
+  /** 항목별 배너 색상 (실패했거나 끝나지 않은 항목은 null) */
+  bannerColors: (BannerColors | null)[]
+  /** 끝난 항목 수 */
+  completed: number
+  isLoading: boolean
+  /** 배치 자체의 오류 (항목별 오류는 results에 포함) */
+  error: Error | null
+  refresh: () => void
+}
+
+/**
+ * 소스 목록이 바뀌었는지 항목별로 비교
+ */
+function isSameSources(a: ImageSource[], b: ImageSource[] | null): boolean {
+  return (
+    b !== null &&
+    a.length === b.length &&
+    a.every((source, i) => getSourceKey(source) === getSourceKey(b[i]))
+  )
+}
+
+/**
+ * 여러 이미지에서 색상을 추출하는 React 훅
+ * 항목이 끝날 때마다 results와 bannerColors가 갱신됨
+ */
+export function useColorExtractionBatch(
+  sources: ImageSource[],
+  options: UseColorExtractionBatchOptions = {}
+): UseColorExtractionBatchResult {
+  const [results, setResults] = useState<(BatchItemResult | null)[]>([])
+  const [bannerColors, setBannerColors] = useState<(BannerColors | null)[]>([])
+  const [completed, setCompleted] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const lastSourcesRef = useRef<ImageSource[] | null>(null)
+  const lastOptionsKeyRef = useRef<string | null>(null)
+  const mountedRef = useRef(true)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const {
+    preferDark = false,
+    useGradient = true,
+    gradientDirection = 'horizontal',
+    ...batchOptions
+  } = options
+
+  // 추출 옵션이 바뀌면 다시 추출하기 위한 비교 키
+  const optionsKey = getOptionsKey(batchOptions)
+
+  // 콜백 등 직렬화되지 않는 옵션은 최신 값을 ref로 참조
+  const batchOptionsRef = useRef(batchOptions)
+  useEffect(() => {
+    batchOptionsRef.current = batchOptions
+  })
+
+  // 렌더링마다 새 배열이 전달되어도 내용이 같으면 다시 추출하지 않음
+  // (렌더링 중 ref를 바꾸지 않고 state로 보관, 버려진 렌더링의 값은 커밋되지 않음)
+  const [stableSources, setStableSources] = useState(sources)
+  if (!isSameSources(sources, stableSources)) {
+    setStableSources(sources)
+  }
+
+  // bypassCache: refresh처럼 같은 소스를 다시 추출할 때 캐시된 결과를 사용하지 않음
+  const extract = useCallback(async (bypassCache = false) => {
+    // 진행 중인 이전 배치 취소
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    const isStale = () => !mountedRef.current || abortControllerRef.current !== controller
+    const batchOptions = batchOptionsRef.current
+
+    lastSourcesRef.current = stableSources
+    lastOptionsKeyRef.current = optionsKey
+
+    setResults(stableSources.map(() => null))
+    setBannerColors(stableSources.map(() => null))
+    setCompleted(0)
+    setError(null)
+
+    if (stableSources.length === 0) {
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+
+    // 외부에서 전달한 signal도 함께 반영
+    const externalSignal = batchOptions.signal
+    const handleExternalAbort = () => controller.abort(externalSignal?.reason)
+    if (externalSignal?.aborted) {
+      handleExternalAbort()
+    } else {
+      externalSignal?.addEventListener('abort', handleExternalAbort, { once: true })
+    }
+
+    try {
+      await extractColorsBatch(stableSources, {
+        ...batchOptions,
+        cache: bypassCache ? 'none' : batchOptions.cache,
+        signal: controller.signal,
+        onItemComplete: (result, completedCount, total) => {
+          batchOptions.onItemComplete?.(result, completedCount, total)
+          if (isStale()) return
+
+          const itemBannerColors =
+            result.status === 'fulfilled'
+              ? generateBannerColors(result.colors, { preferDark, useGradient, gradientDirection })
+              : null
+
+          setResults(prev => prev.map((item, i) => (i === result.index ? result : item)))
+          setBannerColors(prev =>
+            prev.map((item, i) => (i === result.index ? itemBannerColors : item))
+          )
+          setCompleted(completedCount)
+        },
+      })
+    } catch (err) {
+      if (isStale()) return
+      setError(err instanceof Error ? err : new Error('Batch color extraction failed'))
+    } finally {
+      externalSignal?.removeEventListener('abort', handleExternalAbort)
+      if (!isStale()) {
+        setIsLoading(false)
+      }
+    }
+  }, [stableSources, optionsKey, preferDark, useGradient, gradientDirection])
+
+  // 언마운트 시 진행 중인 배치 취소
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort()
+      // StrictMode 재마운트 시 다시 추출하도록 비교 기준 초기화
+      lastSourcesRef.current = null
+      lastOptionsKeyRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    mountedRef.current = true
+
+    // 소스 목록 또는 추출 옵션이 변경되었을 때만 추출
+    if (stableSources !== lastSourcesRef.current || optionsKey !== lastOptionsKeyRef.current) {
+      extract()
+    }
+
+    return () => {
+      mountedRef.current = false
+    }
+  }, [stableSources, optionsKey, extract])
+
+  const refresh = useCallback(() => {
+    extract(true)
+  }, [extract])
+
+  return {
+    results,
+    bannerColors,
+    completed,
+    isLoading,
+    error,
+    refresh,
+  }
+}
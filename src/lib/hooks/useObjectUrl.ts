@@ -0,0 +1,44 @@
+import { useEffect, useMemo } from 'react'
+
+/** Blob별 Object URL과 이를 사용 중인 컴포넌트 수 */
+const objectUrls = new WeakMap<Blob, { url: string; refs: number }>()
+
+function getObjectUrlEntry(blob: Blob): { url: string; refs: number } {
+  let entry = objectUrls.get(blob)
+  if (!entry) {
+    entry = { url: URL.createObjectURL(blob), refs: 0 }
+    objectUrls.set(blob, entry)
+  }
+  return entry
+}
+
+/**
+ * Blob(File 포함)을 img 등에 사용할 수 있는 Object URL로 변환하는 훅
+ * 같은 Blob은 URL을 공유하고, 마지막 사용처가 사라지면 URL을 해제
+ */
+export function useObjectUrl(source: string | Blob | null): string | null {
+  const url = useMemo(
+    () => (source instanceof Blob ? getObjectUrlEntry(source).url : source),
+    [source]
+  )
+
+  useEffect(() => {
+    if (!(source instanceof Blob)) return
+
+    const entry = getObjectUrlEntry(source)
+    entry.refs++
+
+    return () => {
+      entry.refs--
+      // StrictMode 재마운트처럼 곧바로 다시 사용되는 경우를 위해 해제를 미룸
+      setTimeout(() => {
+        if (entry.refs === 0 && objectUrls.get(source) === entry) {
+          objectUrls.delete(source)
+          URL.revokeObjectURL(entry.url)
+        }
+      })
+    }
+  }, [source])
+
+  return url
+}
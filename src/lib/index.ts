@@ -11,10 +11,18 @@ export type {
   UseColorExtractionOptions,
   UseColorExtractionResult,
 } from './hooks/useColorExtraction'
+export { useColorExtractionBatch } from './hooks/useColorExtractionBatch'
+export type {
+  UseColorExtractionBatchOptions,
+  UseColorExtractionBatchResult,
+} from './hooks/useColorExtractionBatch'
 
 // Color Extraction Utilities
 export {
   extractColors,
+  extractColorsDetailed,
+  extractEdgeColors,
+  getCachedColors,
   getContrastRatio,
   getRelativeLuminance,
 } from './utils/colorExtractor'
@@ -22,7 +30,46 @@ export type {
   RGB,
   ExtractedColor,
   ColorExtractionOptions,
+  DetailedExtractionResult,
+  ExtractionDiagnostics,
+  ImageSource,
 } from './utils/colorExtractor'
+export {
+  extractColorsFromPixels,
+  extractColorsFromPixelsDetailed,
+} from './utils/extractionCore'
+export type {
+  PixelExtractionDiagnostics,
+  PixelExtractionOptions,
+} from './utils/extractionCore'
+export type { ColorSpace } from './utils/colorSpace'
+export type {
+  ColorRegion,
+  ColorRegionPreset,
+  ColorRegionRect,
+} from './utils/region'
+export { PIXEL_FILTER_PRESETS } from './utils/pixelFilter'
+export type {
+  PixelFilter,
+  PixelFilterConfig,
+  PixelFilterPredicate,
+  PixelFilterPreset,
+} from './utils/pixelFilter'
+export type { PixelWeighting } from './utils/weighting'
+export type { QuantizationAlgorithm } from './utils/quantize'
+export type { ColorCountMethod } from './utils/colorCount'
+export { deltaE2000, colorDifference } from './utils/colorMerge'
+export type { ColorDifferenceMetric } from './utils/colorMerge'
+export { configureWorkerPool, terminateWorker } from './utils/workerPool'
+export type { WorkerPoolConfig } from './utils/workerPool'
+export { extractColorsBatch } from './utils/batchExtractor'
+export type { BatchExtractionOptions, BatchItemResult } from './utils/batchExtractor'
+export { clearColorCache, configureColorCache } from './utils/colorCache'
+export type { ColorCacheConfig, ColorCacheMode } from './utils/colorCache'
+export { nameColor, describePalette } from './utils/colorNames'
+export type { ColorName } from './utils/colorNames'
+export { extractEdgeColorsFromPixels } from './utils/edgeColors'
+export type { EdgeColorOptions, EdgeColors, EdgeSide } from './utils/edgeColors'
 
 // Color Harmony Utilities
 export {
@@ -36,5 +83,25 @@ export {
   createSoftGradient,
   isDark,
   toRgba,
+  complementary,
+  analogous,
+  triadic,
+  splitComplementary,
+  tetradic,
+  monochromatic,
+  generateHarmony,
+  generateTonalScale,
+} from './utils/colorHarmony'
+export { getApcaContrast, getApcaTarget } from './utils/apca'
+export type {
+  HSL,
+  BannerColors,
+  HarmonyScheme,
+  HarmonySpace,
+  HarmonyOptions,
+  TonalScale,
+  TonalScaleOptions,
+  ContrastAlgorithm,
 } from './utils/colorHarmony'
-export type { HSL, BannerColors } from './utils/colorHarmony'
+export { getSwatches } from './utils/swatches'
+export type { Swatch, SwatchOptions, SwatchRole, Swatches } from './utils/swatches'
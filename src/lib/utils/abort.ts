@@ -0,0 +1,61 @@
+/**
+ * 색상 추출 취소 및 시간 제한 유틸리티
+ */
+
+export interface AbortScope {
+  /** 외부 signal 또는 제한 시간 초과 시 abort되는 signal (비동기 작업용) */
+  signal: AbortSignal
+  /**
+   * 취소 또는 시간 초과 시 예외 발생
+   * 동기 루프 중에는 타이머가 동작하지 않으므로 제한 시간을 직접 비교
+   */
+  check: () => void
+  /** 남은 제한 시간 (ms, 제한 없으면 undefined) */
+  timeRemaining: () => number | undefined
+  /** 타이머와 리스너 정리 */
+  dispose: () => void
+}
+
+/**
+ * 제한 시간 초과 오류 (AbortSignal.timeout과 같은 TimeoutError)
+ */
+export function createTimeoutError(): DOMException {
+  return new DOMException('Color extraction timed out', 'TimeoutError')
+}
+
+/**
+ * 외부 signal과 제한 시간을 하나의 취소 범위로 결합
+ */
+export function createAbortScope(signal?: AbortSignal, timeoutMs?: number): AbortScope {
+  const controller = new AbortController()
+  const deadline = timeoutMs && timeoutMs > 0 ? Date.now() + timeoutMs : Infinity
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const abortFromSignal = () => controller.abort(signal?.reason)
+
+  if (signal?.aborted) {
+    controller.abort(signal.reason)
+  } else {
+    signal?.addEventListener('abort', abortFromSignal, { once: true })
+  }
+
+  if (deadline !== Infinity && !controller.signal.aborted) {
+    timer = setTimeout(() => controller.abort(createTimeoutError()), timeoutMs)
+  }
+
+  return {
+    signal: controller.signal,
+    check: () => {
+      if (!controller.signal.aborted && Date.now() >= deadline) {
+        controller.abort(createTimeoutError())
+      }
+      controller.signal.throwIfAborted()
+    },
+    timeRemaining: () =>
+      deadline === Infinity ? undefined : Math.max(1, deadline - Date.now()),
+    dispose: () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', abortFromSignal)
+    },
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * APCA (WCAG 3 초안) 명도 대비
+ * WCAG 2 대비율과 달리 텍스트와 배경의 극성(밝은 배경의 어두운 글자 / 반대)을 구분하고
+ * 중간 밝기와 어두운 배경에서의 체감 대비를 더 정확하게 반영함
+ * 상수는 APCA-W3 0.0.98G-4g 기준
+ */
+
+import type { RGB } from './extractionCore'
+
+const MAIN_TRC = 2.4
+const R_COEFFICIENT = 0.2126729
+const G_COEFFICIENT = 0.7151522
+const B_COEFFICIENT = 0.072175
+
+const NORMAL_BACKGROUND_EXPONENT = 0.56
+const NORMAL_TEXT_EXPONENT = 0.57
+const REVERSE_BACKGROUND_EXPONENT = 0.65
+const REVERSE_TEXT_EXPONENT = 0.62
+
+/** 검정 근처 밝기 보정 (화면 플레어 반영) */
+const BLACK_THRESHOLD = 0.022
+const BLACK_CLAMP = 1.414
+
+const SCALE = 1.14
+const LOW_OFFSET = 0.027
+const LOW_CLIP = 0.1
+const DELTA_Y_MIN = 0.0005
+
+/**
+ * APCA용 화면 휘도 (WCAG 2의 상대 휘도와 달리 단순 2.4 감마 사용)
+ */
+function getScreenLuminance(rgb: RGB): number {
+  const y =
+    R_COEFFICIENT * Math.pow(rgb.r / 255, MAIN_TRC) +
+    G_COEFFICIENT * Math.pow(rgb.g / 255, MAIN_TRC) +
+    B_COEFFICIENT * Math.pow(rgb.b / 255, MAIN_TRC)
+  return y > BLACK_THRESHOLD ? y : y + Math.pow(BLACK_THRESHOLD - y, BLACK_CLAMP)
+}
+
+/**
+ * 배경 위 텍스트의 APCA 명도 대비(Lc) 계산
+ * 밝은 배경의 어두운 텍스트는 양수(최대 약 106), 어두운 배경의 밝은 텍스트는 음수(최소 약 -108)
+ * 대비가 매우 낮으면 0
+ */
+export function getApcaContrast(text: RGB, background: RGB): number {
+  const textY = getScreenLuminance(text)
+  const backgroundY = getScreenLuminance(background)
+
+  if (Math.abs(backgroundY - textY) < DELTA_Y_MIN) return 0
+
+  if (backgroundY > textY) {
+    const sapc =
+      (Math.pow(backgroundY, NORMAL_BACKGROUND_EXPONENT) -
+        Math.pow(textY, NORMAL_TEXT_EXPONENT)) *
+      SCALE
+    return sapc < LOW_CLIP ? 0 : (sapc - LOW_OFFSET) * 100
+  }
+
+  const sapc =
+    (Math.pow(backgroundY, REVERSE_BACKGROUND_EXPONENT) -
+      Math.pow(textY, REVERSE_TEXT_EXPONENT)) *
+    SCALE
+  return sapc > -LOW_CLIP ? 0 : (sapc + LOW_OFFSET) * 100
+}
+
+/**
+ * 글자 크기(px)와 굵기에 맞는 최소 |Lc| (APCA Bronze 단순화 기준)
+ * - 90: 14px 미만(굵게 12px 미만)의 작은 글자
+ * - 75: 본문 크기 글자
+ * - 60: 24px 이상(굵게 16px 이상)의 글자
+ * - 45: 36px 이상(굵게 24px 이상)의 큰 제목
+ * 굵기 700 이상을 굵은 글자로 취급
+ */
+export function getApcaTarget(fontSize: number = 16, fontWeight: number = 400): number {
+  const bold = fontWeight >= 700
+  if (fontSize >= (bold ? 24 : 36)) return 45
+  if (fontSize >= (bold ? 16 : 24)) return 60
+  if (fontSize >= (bold ? 12 : 14)) return 75
+  return 90
+}
@@ -0,0 +1,103 @@
+/**
+ * 여러 이미지의 색상을 동시 실행 수를 제한하여 추출
+ * 갤러리처럼 많은 이미지를 한 번에 처리할 때 메인 스레드 점유를 줄이는 용도
+ */
+
+import { createAbortScope } from './abort'
+import { extractColorsDetailed } from './colorExtractor'
+import type {
+  ColorExtractionOptions,
+  ExtractedColor,
+  ExtractionDiagnostics,
+  ImageSource,
+} from './colorExtractor'
+
+/** 항목별 결과 (하나가 실패해도 전체 배치는 reject되지 않음) */
+export type BatchItemResult =
+  | {
+      index: number
+      source: ImageSource
+      status: 'fulfilled'
+      colors: ExtractedColor[]
+      diagnostics: ExtractionDiagnostics
+    }
+  | {
+      index: number
+      source: ImageSource
+      status: 'rejected'
+      error: unknown
+    }
+
+export interface BatchExtractionOptions extends ColorExtractionOptions {
+  /** 동시에 진행할 추출 수 (기본: 4) */
+  concurrency?: number
+  /** 항목 우선순위, 높을수록 먼저 추출하며 useWorker면 Worker 풀 큐에도 적용 (기본: 입력 순서) */
+  priority?: (source: ImageSource, index: number) => number
+  /** 항목이 끝날 때마다 호출 (completed: 끝난 항목 수) */
+  onItemComplete?: (result: BatchItemResult, completed: number, total: number) => void
+}
+
+const DEFAULT_BATCH_CONCURRENCY = 4
+
+/**
+ * 여러 이미지에서 색상 추출
+ * 결과는 입력 순서대로 반환하며, signal이 abort되면 남은 항목을 취소하고 signal.reason으로 reject
+ * timeoutMs는 항목별로 적용
+ */
+export async function extractColorsBatch(
+  sources: ImageSource[],
+  options: BatchExtractionOptions = {}
+): Promise<BatchItemResult[]> {
+  const {
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    priority,
+    onItemComplete,
+    signal,
+    ...extractionOptions
+  } = options
+
+  // 우선순위가 같으면 입력 순서 유지
+  const order = sources.map((_, i) => i)
+  const priorities = priority ? sources.map(priority) : null
+  if (priorities) {
+    order.sort((a, b) => priorities[b] - priorities[a] || a - b)
+  }
+
+  const scope = createAbortScope(signal)
+  const results: BatchItemResult[] = new Array(sources.length)
+  let next = 0
+  let completed = 0
+
+  const runNext = async () => {
+    while (next < order.length) {
+      scope.check()
+      const index = order[next++]
+      const source = sources[index]
+
+      try {
+        const { colors, diagnostics } = await extractColorsDetailed(source, {
+          ...extractionOptions,
+          workerPriority: priorities ? priorities[index] : extractionOptions.workerPriority,
+          signal: scope.signal,
+        })
+        results[index] = { index, source, status: 'fulfilled', colors, diagnostics }
+      } catch (error) {
+        // 배치 자체가 취소된 경우에만 전체를 중단
+        scope.check()
+        results[index] = { index, source, status: 'rejected', error }
+      }
+
+      completed++
+      onItemComplete?.(results[index], completed, sources.length)
+    }
+  }
+
+  try {
+    const workers = Math.max(1, Math.min(concurrency, order.length))
+    await Promise.all(Array.from({ length: workers }, runNext))
+  } finally {
+    scope.dispose()
+  }
+
+  return results
+}
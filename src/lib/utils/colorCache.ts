@@ -0,0 +1,390 @@
+/**
+ * 색상 추출 결과 캐시
+ * 메모리 LRU와 선택적 영구 저장소(IndexedDB, 사용할 수 없으면 localStorage)의 2단계로 구성
+ * 캐시는 성능을 위한 부가 기능이므로 저장소 오류는 모두 캐시 미스로 처리
+ */
+
+import type {
+  DetailedExtractionResult,
+  ImageSource,
+  ResolvedExtractionOptions,
+} from './colorExtractor'
+
+/**
+ * 캐시 사용 방식
+ * - none: 캐시 사용 안 함
+ * - memory: 현재 페이지의 메모리에만 저장
+ * - persistent: 메모리와 영구 저장소에 저장하여 다음 방문에도 재사용
+ */
+export type ColorCacheMode = 'none' | 'memory' | 'persistent'
+
+export interface ColorCacheConfig {
+  /** 메모리 캐시 최대 항목 수 (기본: 100) */
+  maxEntries?: number
+  /** 항목 유효 기간 (ms, 기본: 7일) */
+  ttlMs?: number
+  /** 앱에서 지정하는 캐시 버전, 바뀌면 이전에 저장한 항목을 모두 무시 (기본: '') */
+  version?: string
+}
+
+interface CacheRecord {
+  version: string
+  createdAt: number
+  result: DetailedExtractionResult
+}
+
+interface PersistentStore {
+  get: (key: string) => Promise<CacheRecord | undefined>
+  set: (key: string, record: CacheRecord) => Promise<void>
+  clear: () => Promise<void>
+}
+
+/** 저장 형식 버전 (결과 구조가 바뀌면 올림) */
+const CACHE_FORMAT_VERSION = 1
+
+const DB_NAME = 'chamelo'
+const DB_STORE_NAME = 'palettes'
+const LOCAL_STORAGE_PREFIX = 'chamelo:palette:'
+
+const config: Required<ColorCacheConfig> = {
+  maxEntries: 100,
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+  version: '',
+}
+
+/** Map의 삽입 순서를 사용한 LRU (가장 오래 사용하지 않은 항목이 맨 앞) */
+const memoryCache = new Map<string, CacheRecord>()
+
+let persistentStore: Promise<PersistentStore | null> | null = null
+
+/** clearColorCache마다 증가, 삭제 전에 시작한 추출의 결과는 저장하지 않음 */
+let generation = 0
+
+interface InFlightExtraction {
+  promise: Promise<DetailedExtractionResult>
+  controller: AbortController
+  subscribers: number
+}
+
+const inFlight = new Map<string, InFlightExtraction>()
+
+/**
+ * 캐시 설정 변경
+ * 버전을 바꾸면 이전 버전으로 저장된 항목은 읽을 때 무시됨
+ */
+export function configureColorCache(options: ColorCacheConfig): void {
+  Object.assign(config, options)
+  while (memoryCache.size > config.maxEntries) {
+    memoryCache.delete(memoryCache.keys().next().value!)
+  }
+}
+
+/**
+ * 메모리와 영구 저장소의 캐시를 모두 삭제
+ */
+export async function clearColorCache(): Promise<void> {
+  generation++
+  memoryCache.clear()
+  // 진행 중인 추출은 기존 요청에만 결과를 전달하고 새 요청과는 공유하지 않음
+  inFlight.clear()
+  const store = await getPersistentStore()
+  await store?.clear().catch(() => {})
+  // IndexedDB를 사용할 수 없던 이전 방문의 항목도 함께 삭제
+  clearLocalStorage()
+}
+
+/**
+ * 현재 캐시 세대 (추출을 시작할 때 읽어 writeColorCache에 전달)
+ */
+export function getCacheGeneration(): number {
+  return generation
+}
+
+/**
+ * 소스와 결과에 영향을 주는 옵션으로 캐시 키 생성
+ * URL이 없는 소스(Blob, 캔버스, 비디오 등)와 함수 필터는 내용을 비교할 수 없으므로 null
+ */
+export function getCacheKey(
+  source: ImageSource,
+  opts: ResolvedExtractionOptions
+): string | null {
+  const url =
+    typeof source === 'string'
+      ? source
+      : typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement
+        ? source.src
+        : ''
+  if (!url || typeof opts.pixelFilter === 'function') return null
+
+  const normalized = {
+    colorCount: opts.colorCount,
+    minColorCount: opts.minColorCount,
+    maxColorCount: opts.maxColorCount,
+    colorCountMethod: opts.colorCountMethod,
+    quality: opts.quality,
+    maxIterations: opts.maxIterations,
+    sampleSize: opts.sampleSize,
+    maxDimension: opts.maxDimension,
+    colorSpace: opts.colorSpace,
+    region: opts.region,
+    pixelFilter: opts.pixelFilter,
+    weighting: opts.weighting,
+    centerFalloff: opts.centerFalloff,
+    algorithm: opts.algorithm,
+    seed: opts.seed,
+    mergeThreshold: opts.mergeThreshold,
+    mergeMetric: opts.mergeMetric,
+    preserveColorCount: opts.preserveColorCount,
+    includeNames: opts.includeNames,
+  }
+  return `${url}\n${JSON.stringify(normalized)}`
+}
+
+/**
+ * 캐시에서 결과 조회
+ * 메모리에 없으면 영구 저장소를 확인하고, 찾으면 메모리에도 저장
+ */
+export async function readColorCache(
+  key: string,
+  persistent: boolean
+): Promise<DetailedExtractionResult | null> {
+  const record = memoryCache.get(key)
+  if (record && isValidRecord(record)) {
+    // 최근 사용 항목으로 이동
+    memoryCache.delete(key)
+    memoryCache.set(key, record)
+    return withCacheHit(record.result, 'memory')
+  }
+  if (record) memoryCache.delete(key)
+
+  if (!persistent || isPageScopedKey(key)) return null
+
+  const readGeneration = generation
+  const store = await getPersistentStore()
+  const stored = await store?.get(hashKey(key)).catch(() => undefined)
+  if (!stored || !isValidRecord(stored) || generation !== readGeneration) return null
+
+  setMemoryRecord(key, stored)
+  return withCacheHit(stored.result, 'persistent')
+}
+
+/**
+ * 결과를 캐시에 저장
+ * 추출을 시작한 뒤 캐시가 삭제되었으면(세대가 바뀌었으면) 저장하지 않음
+ */
+export async function writeColorCache(
+  key: string,
+  result: DetailedExtractionResult,
+  persistent: boolean,
+  startGeneration: number
+): Promise<void> {
+  if (generation !== startGeneration) return
+
+  const record: CacheRecord = {
+    version: getRecordVersion(),
+    createdAt: Date.now(),
+    result: copyResult(result),
+  }
+  setMemoryRecord(key, record)
+
+  if (!persistent || isPageScopedKey(key)) return
+
+  const store = await getPersistentStore()
+  if (generation !== startGeneration) return
+  await store?.set(hashKey(key), record).catch(() => {})
+}
+
+/**
+ * 같은 키의 동시 요청이 하나의 추출을 공유하도록 함
+ * 각 요청은 자신의 signal(제한 시간 포함)로 자신의 대기만 중단하며, 모든 요청이 중단되면 추출도 중단
+ * 각 요청에는 결과의 복사본을 전달
+ */
+export function shareInFlight(
+  key: string,
+  signal: AbortSignal,
+  run: (signal: AbortSignal) => Promise<DetailedExtractionResult>
+): Promise<DetailedExtractionResult> {
+  let entry = inFlight.get(key)
+  if (!entry) {
+    const controller = new AbortController()
+    const created: InFlightExtraction = {
+      promise: run(controller.signal),
+      controller,
+      subscribers: 0,
+    }
+    const release = () => {
+      if (inFlight.get(key) === created) inFlight.delete(key)
+    }
+    created.promise.then(release, release)
+    inFlight.set(key, created)
+    entry = created
+  }
+
+  const shared = entry
+  shared.subscribers++
+
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => {
+      reject(signal.reason)
+      shared.subscribers--
+      if (shared.subscribers === 0) {
+        if (inFlight.get(key) === shared) inFlight.delete(key)
+        shared.controller.abort(signal.reason)
+      }
+    }
+
+    if (signal.aborted) {
+      handleAbort()
+      return
+    }
+    signal.addEventListener('abort', handleAbort, { once: true })
+
+    shared.promise.then(
+      result => {
+        signal.removeEventListener('abort', handleAbort)
+        resolve(copyResult(result))
+      },
+      err => {
+        signal.removeEventListener('abort', handleAbort)
+        reject(err)
+      }
+    )
+  })
+}
+
+function getRecordVersion(): string {
+  return `${CACHE_FORMAT_VERSION}:${config.version}`
+}
+
+function isValidRecord(record: CacheRecord): boolean {
+  return record.version === getRecordVersion() && Date.now() - record.createdAt < config.ttlMs
+}
+
+/** Object URL은 현재 페이지에서만 유효하므로 영구 저장하지 않음 */
+function isPageScopedKey(key: string): boolean {
+  return key.startsWith('blob:')
+}
+
+/**
+ * 결과 복사본
+ * 한 요청에서 색상 배열이나 객체를 수정해도 캐시와 다른 요청의 결과는 바뀌지 않도록 함
+ */
+function copyResult(result: DetailedExtractionResult): DetailedExtractionResult {
+  return {
+    colors: result.colors.map(color => ({ ...color, rgb: { ...color.rgb } })),
+    diagnostics: { ...result.diagnostics, timings: { ...result.diagnostics.timings } },
+  }
+}
+
+function withCacheHit(
+  result: DetailedExtractionResult,
+  cacheHit: 'memory' | 'persistent'
+): DetailedExtractionResult {
+  const copy = copyResult(result)
+  return { ...copy, diagnostics: { ...copy.diagnostics, cacheHit } }
+}
+
+function setMemoryRecord(key: string, record: CacheRecord): void {
+  memoryCache.delete(key)
+  memoryCache.set(key, record)
+  while (memoryCache.size > config.maxEntries) {
+    memoryCache.delete(memoryCache.keys().next().value!)
+  }
+}
+
+/**
+ * 영구 저장소 키 (data: URL처럼 긴 키를 줄이기 위한 53비트 cyrb53 해시)
+ */
+function hashKey(key: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < key.length; i++) {
+    const ch = key.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+/**
+ * 영구 저장소를 한 번만 열어 재사용
+ * IndexedDB를 열 수 없으면 localStorage, 둘 다 없으면 null (SSR 등)
+ */
+function getPersistentStore(): Promise<PersistentStore | null> {
+  if (!persistentStore) {
+    persistentStore = openIndexedDbStore().catch(() => createLocalStorageStore())
+  }
+  return persistentStore
+}
+
+function openIndexedDbStore(): Promise<PersistentStore> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not supported'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DB_STORE_NAME)
+    }
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const db = request.result
+
+      const run = <T>(
+        mode: IDBTransactionMode,
+        operation: (store: IDBObjectStore) => IDBRequest<T>
+      ): Promise<T> =>
+        new Promise((resolveRequest, rejectRequest) => {
+          const req = operation(db.transaction(DB_STORE_NAME, mode).objectStore(DB_STORE_NAME))
+          req.onsuccess = () => resolveRequest(req.result)
+          req.onerror = () => rejectRequest(req.error)
+        })
+
+      resolve({
+        get: key => run<CacheRecord | undefined>('readonly', store => store.get(key)),
+        set: async (key, record) => {
+          await run('readwrite', store => store.put(record, key))
+        },
+        clear: async () => {
+          await run('readwrite', store => store.clear())
+        },
+      })
+    }
+  })
+}
+
+function createLocalStorageStore(): PersistentStore | null {
+  try {
+    if (typeof localStorage === 'undefined') return null
+  } catch {
+    // 저장소 접근이 차단된 환경
+    return null
+  }
+
+  return {
+    get: async key => {
+      const value = localStorage.getItem(LOCAL_STORAGE_PREFIX + key)
+      return value ? (JSON.parse(value) as CacheRecord) : undefined
+    },
+    set: async (key, record) => {
+      localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(record))
+    },
+    clear: async () => clearLocalStorage(),
+  }
+}
+
+function clearLocalStorage(): void {
+  try {
+    if (typeof localStorage === 'undefined') return
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+      const key = localStorage.key(i)
+      if (key?.startsWith(LOCAL_STORAGE_PREFIX)) localStorage.removeItem(key)
+    }
+  } catch {
+    // 저장소 접근이 차단된 환경
+  }
+}
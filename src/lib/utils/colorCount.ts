@@ -0,0 +1,156 @@
+/**
+ * 자동 색상 수(k) 선택 유틸리티
+ * 여러 k로 클러스터링한 뒤 클러스터 품질 지표로 가장 적합한 k를 선택
+ *
+ * 인라인 Worker 코드에 함수 소스가 그대로 삽입되므로
+ * 각 함수는 이 파일과 colorSpace의 함수 외에는 외부 값을 참조하지 않아야 함
+ */
+
+import { toColorSpace } from './colorSpace'
+import type { ColorSpace } from './colorSpace'
+import type { RGB } from './extractionCore'
+
+export type ColorCountMethod = 'elbow' | 'silhouette'
+
+/**
+ * 관성(inertia): 각 점과 가장 가까운 중심 사이 거리 제곱의 합
+ */
+export function computeInertia(points: number[][], centroids: number[][]): number {
+  let inertia = 0
+
+  for (const p of points) {
+    let minDist = Infinity
+    for (const c of centroids) {
+      const d0 = p[0] - c[0]
+      const d1 = p[1] - c[1]
+      const d2 = p[2] - c[2]
+      const dist = d0 * d0 + d1 * d1 + d2 * d2
+      if (dist < minDist) minDist = dist
+    }
+    inertia += minDist
+  }
+
+  return inertia
+}
+
+/**
+ * 단순화된 실루엣 점수 (-1 ~ 1, 높을수록 잘 분리됨)
+ * 픽셀 간 거리 대신 중심까지의 거리를 사용하여 O(n·k)로 계산
+ */
+export function computeSilhouette(points: number[][], centroids: number[][]): number {
+  if (centroids.length < 2 || points.length === 0) return 0
+
+  // 계산량 제한을 위해 최대 1000개 점을 균등 간격으로 사용
+  const step = Math.max(1, Math.floor(points.length / 1000))
+  let total = 0
+  let count = 0
+
+  for (let i = 0; i < points.length; i += step) {
+    const p = points[i]
+    let nearest = Infinity
+    let second = Infinity
+    for (const c of centroids) {
+      const d0 = p[0] - c[0]
+      const d1 = p[1] - c[1]
+      const d2 = p[2] - c[2]
+      const dist = Math.sqrt(d0 * d0 + d1 * d1 + d2 * d2)
+      if (dist < nearest) {
+        second = nearest
+        nearest = dist
+      } else if (dist < second) {
+        second = dist
+      }
+    }
+    const max = Math.max(nearest, second)
+    total += max > 0 ? (second - nearest) / max : 0
+    count++
+  }
+
+  return count > 0 ? total / count : 0
+}
+
+/**
+ * 후보 k 중 가장 적합한 값 선택
+ * - elbow: k-관성 곡선에서 양 끝을 잇는 직선과 가장 먼 지점
+ * - silhouette: 실루엣 점수가 가장 높은 k
+ */
+export function selectColorCount(
+  points: number[][],
+  candidates: { k: number; centroids: number[][] }[],
+  method: ColorCountMethod
+): number {
+  if (candidates.length === 0) return 0
+  if (candidates.length === 1) return candidates[0].k
+
+  if (method === 'silhouette') {
+    let best = candidates[0].k
+    let bestScore = -Infinity
+    for (const candidate of candidates) {
+      // k=1은 실루엣을 정의할 수 없음
+      if (candidate.centroids.length < 2) continue
+      const score = computeSilhouette(points, candidate.centroids)
+      if (score > bestScore) {
+        bestScore = score
+        best = candidate.k
+      }
+    }
+    return best
+  }
+
+  const inertias = candidates.map(c => computeInertia(points, c.centroids))
+  const first = inertias[0]
+  const last = inertias[inertias.length - 1]
+
+  // 모든 픽셀이 같은 색이면 최소 k
+  if (first === 0 || first === last) return candidates[0].k
+
+  // k와 관성을 0-1로 정규화한 뒤 직선 (0,1)-(1,0)과의 거리 비교
+  let best = candidates[0].k
+  let bestDistance = -Infinity
+  for (let i = 0; i < candidates.length; i++) {
+    const x = i / (candidates.length - 1)
+    const y = (inertias[i] - last) / (first - last)
+    const distance = 1 - x - y
+    if (distance > bestDistance) {
+      bestDistance = distance
+      best = candidates[i].k
+    }
+  }
+
+  return best
+}
+
+/**
+ * 최소~최대 범위의 k로 각각 클러스터링하고 가장 적합한 결과 반환
+ * cluster가 반환한 추가 정보(반복 횟수 등)는 선택된 결과에 그대로 포함
+ */
+export function clusterWithAutoColorCount<T extends { centroids: RGB[]; counts: number[] }>(
+  pixels: number[][],
+  minColorCount: number,
+  maxColorCount: number,
+  method: ColorCountMethod,
+  colorSpace: ColorSpace,
+  cluster: (k: number) => T
+): T & { colorCount: number } {
+  const max = Math.max(1, Math.min(maxColorCount, pixels.length))
+  const min = Math.max(1, Math.min(minColorCount, max))
+
+  const runs: (T & { k: number })[] = []
+  for (let k = min; k <= max; k++) {
+    runs.push({ k, ...cluster(k) })
+  }
+
+  const points =
+    colorSpace === 'rgb' ? pixels : pixels.map(p => toColorSpace(p[0], p[1], p[2], colorSpace))
+  const colorCount = selectColorCount(
+    points,
+    runs.map(run => ({
+      k: run.k,
+      centroids: run.centroids.map(c => toColorSpace(c.r, c.g, c.b, colorSpace)),
+    })),
+    method
+  )
+
+  const selected = runs.find(run => run.k === colorCount) ?? runs[0]
+  return { ...selected, colorCount: selected.k }
+}
@@ -1,222 +1,583 @@
 /**
- * K-means clustering based color extraction using ml-kmeans
+ * K-means clustering based color extraction
  */
 
-import { kmeans } from 'ml-kmeans'
-
-export interface RGB {
-  r: number
-  g: number
-  b: number
+import { resolveRegion } from './region'
+import type { ColorRegion, PixelRect } from './region'
+import { createAbortScope } from './abort'
+import type { AbortScope } from './abort'
+import {
+  DEFAULT_PIXEL_EXTRACTION_OPTIONS,
+  extractColorsFromPixels,
+  extractColorsFromPixelsDetailed,
+} from './extractionCore'
+import type {
+  ExtractedColor,
+  OptionalExtractionKeys,
+  PixelExtractionDiagnostics,
+  PixelExtractionOptions,
+  RGB,
+} from './extractionCore'
+import { extractEdgeColorsFromPixels } from './edgeColors'
+import type { EdgeColorOptions, EdgeColors } from './edgeColors'
+import {
+  getCacheGeneration,
+  getCacheKey,
+  readColorCache,
+  shareInFlight,
+  writeColorCache,
+} from './colorCache'
+import type { ColorCacheMode } from './colorCache'
+import {
+  canUseWorker,
+  extractColorsWithWorkerDetailed,
+  extractColorsWithWorkerFromSource,
+} from './workerPool'
+import type { WorkerExtractionOptions } from './workerPool'
+
+export type { RGB, ExtractedColor } from './extractionCore'
+
+/** 점진적 추출 단계 */
+export type ExtractionStage = 'preview' | 'final'
+
+export interface ColorExtractionOptions extends PixelExtractionOptions {
+  /**
+   * 클러스터링을 Web Worker에서 실행 (기본: false)
+   * Worker를 사용할 수 없거나 pixelFilter가 함수면 메인 스레드에서 처리
+   */
+  useWorker?: boolean
+  /** Worker 풀 큐에서의 우선순위, 높을수록 먼저 처리 (기본: 0) */
+  workerPriority?: number
+  /** 추출 전 이미지를 축소할 최대 크기 (긴 변 기준 px, 기본: 200) */
+  maxDimension?: number
+  /** 작은 캔버스의 빠른 미리보기 결과를 먼저 전달한 뒤 정밀 추출 (기본: false) */
+  progressive?: boolean
+  /** 단계별 결과를 전달받는 콜백 (progressive가 아니면 'final'만 호출) */
+  onProgress?: (colors: ExtractedColor[], stage: ExtractionStage) => void
+  /** 결과 캐시 방식, URL 소스에만 적용 (기본: 'none') */
+  cache?: ColorCacheMode
 }
 
-export interface ExtractedColor {
-  rgb: RGB
-  hex: string
-  population: number
-  percentage: number
+/** 기본값이 없는 옵션 (콜백 등) */
+type OptionalColorExtractionKeys = OptionalExtractionKeys | 'onProgress'
+
+export type ResolvedExtractionOptions = Required<
+  Omit<ColorExtractionOptions, OptionalColorExtractionKeys>
+> &
+  Pick<ColorExtractionOptions, OptionalColorExtractionKeys>
+
+/**
+ * 색상 추출 진단 정보
+ * 배너 색상이 예상과 다를 때 원인을 확인하는 용도
+ */
+export interface ExtractionDiagnostics extends Omit<PixelExtractionDiagnostics, 'timings'> {
+  /** 픽셀을 읽은 축소 캔버스 크기 */
+  canvasWidth: number
+  canvasHeight: number
+  /** 단계별 소요 시간 (ms) */
+  timings: {
+    load: number
+    draw: number
+    sample: number
+    cluster: number
+  }
+  /** 클러스터링이 실행된 위치 */
+  executionPath: 'main' | 'worker'
+  /** 캐시에서 가져온 경우 캐시 위치 (이때 나머지 값은 원래 추출 당시의 값) */
+  cacheHit: 'memory' | 'persistent' | null
 }
 
-export interface ColorExtractionOptions {
-  colorCount?: number
-  quality?: number
-  maxIterations?: number
-  sampleSize?: number
-  useWorker?: boolean
+export interface DetailedExtractionResult {
+  colors: ExtractedColor[]
+  diagnostics: ExtractionDiagnostics
 }
 
-const DEFAULT_OPTIONS: Required<ColorExtractionOptions> = {
-  colorCount: 5,
-  quality: 10,
-  maxIterations: 100,
-  sampleSize: 10000,
+const DEFAULT_OPTIONS: Required<Omit<ColorExtractionOptions, OptionalColorExtractionKeys>> = {
+  ...DEFAULT_PIXEL_EXTRACTION_OPTIONS,
   useWorker: false,
+  workerPriority: 0,
+  maxDimension: 200,
+  progressive: false,
+  cache: 'none',
 }
 
+/** 미리보기 단계의 캔버스 크기와 K-means 최대 반복 횟수 */
+const PREVIEW_MAX_DIMENSION = 32
+const PREVIEW_MAX_ITERATIONS = 10
+
 /**
- * RGB를 HEX로 변환
+ * ImageData에서 직접 색상 추출
  */
-function rgbToHex(rgb: RGB): string {
-  const toHex = (n: number) => {
-    const hex = Math.round(Math.max(0, Math.min(255, n))).toString(16)
-    return hex.length === 1 ? '0' + hex : hex
-  }
-  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`
+export function extractColorsFromImageData(
+  imageData: ImageData,
+  options: PixelExtractionOptions = {}
+): ExtractedColor[] {
+  return extractColorsFromPixels(imageData.data, imageData.width, imageData.height, options)
 }
 
 /**
- * 이미지에서 픽셀 데이터 추출
+ * 색상을 추출할 수 있는 이미지 소스
+ * 문자열은 이미지 URL, Blob(File 포함)은 Object URL로 로드
  */
-function getPixelsFromImage(
-  imageData: ImageData,
-  quality: number,
-  sampleSize: number
-): number[][] {
-  const pixels: number[][] = []
-  const data = imageData.data
-  const pixelCount = imageData.width * imageData.height
-  const step = Math.max(1, Math.floor(pixelCount / sampleSize) * quality)
-
-  for (let i = 0; i < data.length; i += 4 * step) {
-    const r = data[i]
-    const g = data[i + 1]
-    const b = data[i + 2]
-    const a = data[i + 3]
-
-    // 투명하지 않은 픽셀만 포함
-    if (a >= 125) {
-      // 거의 흰색이나 검은색 제외 (배경색 가능성 높음)
-      if (!(r > 250 && g > 250 && b > 250) && !(r < 5 && g < 5 && b < 5)) {
-        pixels.push([r, g, b])
+export type ImageSource =
+  | string
+  | Blob
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | HTMLVideoElement
+  | SVGSVGElement
+  | ImageBitmap
+  | OffscreenCanvas
+
+/** 크기 정보가 없는 SVG의 래스터화 크기 (CSS 대체 요소 기본 크기) */
+const DEFAULT_SVG_WIDTH = 300
+const DEFAULT_SVG_HEIGHT = 150
+
+interface DrawableSource {
+  image: CanvasImageSource
+  width: number
+  height: number
+  /** 소스를 위해 만든 임시 리소스(Object URL 등) 해제 */
+  release: () => void
+}
+
+/**
+ * 이미지에서 주요 색상 추출
+ */
+export async function extractColors(
+  imageSource: ImageSource,
+  options: ColorExtractionOptions = {}
+): Promise<ExtractedColor[]> {
+  const { colors } = await extractColorsDetailed(imageSource, options)
+  return colors
+}
+
+/**
+ * 이미지에서 주요 색상과 진단 정보 추출
+ */
+export async function extractColorsDetailed(
+  imageSource: ImageSource,
+  options: ColorExtractionOptions = {}
+): Promise<DetailedExtractionResult> {
+  const opts: ResolvedExtractionOptions = { ...DEFAULT_OPTIONS, ...options }
+  const scope = createAbortScope(opts.signal, opts.timeoutMs)
+
+  try {
+    scope.check()
+    const key = opts.cache === 'none' ? null : getCacheKey(imageSource, opts)
+    const persistent = opts.cache === 'persistent'
+    let result = key ? await readColorCache(key, persistent) : null
+    scope.check()
+
+    if (!result) {
+      const run = async (signal: AbortSignal, timeoutMs?: number) => {
+        const runScope = createAbortScope(signal, timeoutMs)
+        try {
+          return await extractColorsFromSource(imageSource, opts, runScope)
+        } finally {
+          runScope.dispose()
+        }
+      }
+
+      if (key) {
+        // 같은 키의 동시 요청은 하나의 추출을 공유하고 완료되면 캐시에 저장
+        // 공유 추출에는 제한 시간을 두지 않고, 각 요청의 제한 시간은 자신의 대기에만 적용
+        result = await shareInFlight(key, scope.signal, async signal => {
+          const startGeneration = getCacheGeneration()
+          const extracted = await run(signal)
+          void writeColorCache(key, extracted, persistent, startGeneration)
+          return extracted
+        })
+      } else {
+        result = await run(scope.signal, scope.timeRemaining())
       }
     }
-  }
 
-  return pixels
+    // 캐시나 공유된 추출의 결과도 각 요청의 콜백으로 전달
+    opts.onColorCountResolved?.(result.diagnostics.colorCount)
+    opts.onProgress?.(result.colors, 'final')
+    return result
+  } finally {
+    scope.dispose()
+  }
 }
 
 /**
- * 채도 계산 (HSL 기준)
+ * 캐시에 저장된 색상 조회 (없으면 null)
+ * extractColors와 같은 소스와 옵션으로 조회해야 같은 항목을 찾으며, 영구 저장소도 확인
  */
-function getSaturation(rgb: RGB): number {
-  const r = rgb.r / 255
-  const g = rgb.g / 255
-  const b = rgb.b / 255
-  const max = Math.max(r, g, b)
-  const min = Math.min(r, g, b)
-  const l = (max + min) / 2
+export async function getCachedColors(
+  imageSource: ImageSource,
+  options: ColorExtractionOptions = {}
+): Promise<ExtractedColor[] | null> {
+  const opts: ResolvedExtractionOptions = { ...DEFAULT_OPTIONS, ...options }
+  const key = getCacheKey(imageSource, opts)
+  if (!key) return null
+
+  const result = await readColorCache(key, true)
+  return result?.colors ?? null
+}
 
-  if (max === min) return 0
+/**
+ * 이미지 네 변의 대표 색상 추출
+ * object-fit: contain 등으로 이미지가 컨테이너를 다 덮지 않을 때 빈 영역을 채우는 용도
+ */
+export async function extractEdgeColors(
+  imageSource: ImageSource,
+  options: EdgeColorOptions = {}
+): Promise<EdgeColors> {
+  const scope = createAbortScope(options.signal, options.timeoutMs)
+
+  try {
+    scope.check()
+    const source = await resolveImageSource(imageSource, scope.signal)
+    let imageData: ImageData
+    try {
+      imageData = drawRegion(
+        source,
+        resolveRegion('full', source.width, source.height),
+        DEFAULT_OPTIONS.maxDimension
+      )
+    } finally {
+      source.release()
+    }
 
-  const d = max - min
-  return l > 0.5 ? d / (2 - max - min) : d / (max + min)
+    scope.check()
+    return extractEdgeColorsFromPixels(imageData.data, imageData.width, imageData.height, {
+      ...options,
+      signal: scope.signal,
+      timeoutMs: scope.timeRemaining(),
+    })
+  } finally {
+    scope.dispose()
+  }
 }
 
 /**
- * ml-kmeans를 사용한 색상 클러스터링
+ * 이미지 로드 → 캔버스 그리기 → 픽셀 추출
+ * progressive면 작은 캔버스로 미리보기 결과를 먼저 전달한 뒤 정밀 추출
  */
-function kMeansClusteringWithLib(
-  pixels: number[][],
-  k: number,
-  maxIterations: number
-): { centroids: RGB[]; counts: number[] } {
-  if (pixels.length === 0) {
-    return { centroids: [], counts: [] }
+async function extractColorsFromSource(
+  imageSource: ImageSource,
+  opts: ResolvedExtractionOptions,
+  scope: AbortScope
+): Promise<DetailedExtractionResult> {
+  // URL과 Blob은 Worker에서 불러와 디코딩 (미리보기는 메인 스레드 캔버스가 필요하므로 제외)
+  const workerOptions = getWorkerOptions(opts, scope, opts.region)
+  if (workerOptions && !opts.progressive && isWorkerDecodable(imageSource)) {
+    try {
+      const { colors, diagnostics } = await extractColorsWithWorkerFromSource(
+        typeof imageSource === 'string' ? new URL(imageSource, document.baseURI).href : imageSource,
+        opts.maxDimension,
+        workerOptions
+      )
+      return { colors, diagnostics: { ...diagnostics, executionPath: 'worker', cacheHit: null } }
+    } catch (err) {
+      // Worker에서 디코딩할 수 없으면(OffscreenCanvas 미지원, SVG 등) 메인 스레드에서 다시 로드
+      throwIfCancelled(err, scope)
+    }
   }
 
-  const actualK = Math.min(k, pixels.length)
+  // 이미지 로드
+  const loadStart = performance.now()
+  const source = await resolveImageSource(imageSource, scope.signal)
+  const loadTime = performance.now() - loadStart
+
+  try {
+    // 렌더링 크기가 아닌 원본 크기 기준으로 영역 계산
+    const rect = resolveRegion(opts.region, source.width, source.height)
+
+    // 미리보기는 작은 캔버스이므로 useWorker와 관계없이 메인 스레드에서 처리
+    // 영역은 이미 캔버스에 잘라서 그렸으므로 전체 사용
+    if (opts.progressive && opts.maxDimension > PREVIEW_MAX_DIMENSION) {
+      const preview = drawRegion(source, rect, PREVIEW_MAX_DIMENSION)
+      scope.check()
+      const previewColors = extractColorsFromPixels(preview.data, preview.width, preview.height, {
+        ...opts,
+        region: 'full',
+        quality: 1,
+        maxIterations: Math.min(opts.maxIterations, PREVIEW_MAX_ITERATIONS),
+        onColorCountResolved: undefined,
+        signal: scope.signal,
+        timeoutMs: scope.timeRemaining(),
+      })
+      opts.onProgress?.(previewColors, 'preview')
+
+      // 미리보기가 화면에 반영되도록 정밀 추출 전에 메인 스레드 양보
+      await new Promise(resolve => setTimeout(resolve))
+    }
 
-  // ml-kmeans 실행
-  const result = kmeans(pixels, actualK, {
-    initialization: 'kmeans++',
-    maxIterations,
-  })
+    const drawStart = performance.now()
+    const imageData = drawRegion(source, rect, opts.maxDimension)
+    const drawTime = performance.now() - drawStart
+
+    scope.check()
+    const { colors, diagnostics, executionPath } = await clusterImageData(
+      imageData,
+      () => drawRegion(source, rect, opts.maxDimension),
+      opts,
+      scope
+    )
+
+    return {
+      colors,
+      diagnostics: {
+        ...diagnostics,
+        canvasWidth: imageData.width,
+        canvasHeight: imageData.height,
+        timings: { load: loadTime, draw: drawTime, ...diagnostics.timings },
+        executionPath,
+        cacheHit: null,
+      },
+    }
+  } finally {
+    source.release()
+  }
+}
 
-  // 각 클러스터의 픽셀 수 계산
-  const counts: number[] = new Array(actualK).fill(0)
-  for (const clusterIndex of result.clusters) {
-    counts[clusterIndex]++
+/**
+ * 캔버스 픽셀 클러스터링
+ * useWorker면 Worker에서 실행하고, Worker를 만들 수 없거나(CSP 차단 등) 실패하면 메인 스레드에서 다시 실행
+ * Worker로 보낸 픽셀 버퍼는 전송되어 비워지므로 메인 스레드에서 다시 실행할 때는 redraw로 다시 그림
+ */
+async function clusterImageData(
+  imageData: ImageData,
+  redraw: () => ImageData,
+  opts: ResolvedExtractionOptions,
+  scope: AbortScope
+): Promise<{
+  colors: ExtractedColor[]
+  diagnostics: PixelExtractionDiagnostics
+  executionPath: ExtractionDiagnostics['executionPath']
+}> {
+  const workerOptions = getWorkerOptions(opts, scope, 'full')
+  if (workerOptions) {
+    try {
+      const result = await extractColorsWithWorkerDetailed(imageData, workerOptions)
+      return { ...result, executionPath: 'worker' }
+    } catch (err) {
+      throwIfCancelled(err, scope)
+      imageData = redraw()
+    }
   }
 
-  // centroids를 RGB 객체로 변환
-  const centroids: RGB[] = result.centroids.map(centroid => ({
-    r: Math.round(centroid[0]),
-    g: Math.round(centroid[1]),
-    b: Math.round(centroid[2]),
-  }))
+  const result = extractColorsFromPixelsDetailed(
+    imageData.data,
+    imageData.width,
+    imageData.height,
+    {
+      ...opts,
+      region: 'full',
+      onColorCountResolved: undefined,
+      signal: scope.signal,
+      timeoutMs: scope.timeRemaining(),
+    }
+  )
+  return { ...result, executionPath: 'main' }
+}
 
-  return { centroids, counts }
+/**
+ * Worker로 보낼 옵션 (useWorker가 아니거나 Worker로 처리할 수 없으면 null)
+ */
+function getWorkerOptions(
+  opts: ResolvedExtractionOptions,
+  scope: AbortScope,
+  region: ColorRegion
+): WorkerExtractionOptions | null {
+  // 함수 필터는 Worker로 전달할 수 없음
+  if (!opts.useWorker || typeof opts.pixelFilter === 'function' || !canUseWorker()) return null
+
+  return {
+    ...opts,
+    region,
+    pixelFilter: opts.pixelFilter,
+    priority: opts.workerPriority,
+    onColorCountResolved: undefined,
+    signal: scope.signal,
+    timeoutMs: scope.timeRemaining(),
+  }
 }
 
 /**
- * ImageData에서 직접 색상 추출
+ * Worker가 직접 불러와 디코딩할 수 있는 소스인지 확인
  */
-export function extractColorsFromImageData(
-  imageData: ImageData,
-  options: Required<Omit<ColorExtractionOptions, 'useWorker'>>
-): ExtractedColor[] {
-  const pixels = getPixelsFromImage(imageData, options.quality, options.sampleSize)
+function isWorkerDecodable(source: ImageSource): source is string | Blob {
+  return typeof source === 'string' || source instanceof Blob
+}
 
-  if (pixels.length === 0) {
-    return []
-  }
+/**
+ * Worker 실패 후 메인 스레드로 대체하기 전에 호출
+ * 취소, 시간 초과, 풀 종료(terminateWorker)는 대체하지 않고 그대로 전달
+ */
+function throwIfCancelled(err: unknown, scope: AbortScope): void {
+  scope.check()
+  const isDomException = err instanceof DOMException
+  if (isDomException && (err.name === 'TimeoutError' || err.name === 'AbortError')) throw err
+}
 
-  // 픽셀이 너무 적으면 colorCount 조정
-  const actualColorCount = Math.min(options.colorCount, pixels.length)
+/**
+ * 이미지의 지정한 영역을 긴 변이 maxDimension 이하인 캔버스에 그려 픽셀 데이터 반환
+ */
+function drawRegion(source: DrawableSource, rect: PixelRect, maxDimension: number): ImageData {
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')!
 
-  const { centroids, counts } = kMeansClusteringWithLib(
-    pixels,
-    actualColorCount,
-    options.maxIterations
+  // 성능을 위해 이미지 크기 제한
+  const scale = Math.min(1, maxDimension / Math.max(rect.width, rect.height))
+  canvas.width = Math.max(1, Math.floor(rect.width * scale))
+  canvas.height = Math.max(1, Math.floor(rect.height * scale))
+
+  // 지정한 영역만 캔버스에 그림
+  ctx.drawImage(
+    source.image,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height,
+    0,
+    0,
+    canvas.width,
+    canvas.height
   )
-
-  const totalPixels = counts.reduce((a, b) => a + b, 0)
-
-  return centroids
-    .map((centroid, i) => ({
-      rgb: centroid,
-      hex: rgbToHex(centroid),
-      population: counts[i],
-      percentage: totalPixels > 0 ? (counts[i] / totalPixels) * 100 : 0,
-    }))
-    .filter(c => c.population > 0)
-    .sort((a, b) => {
-      // 채도와 빈도를 조합한 점수로 정렬
-      const scoreA = a.percentage * (0.7 + 0.3 * getSaturation(a.rgb))
-      const scoreB = b.percentage * (0.7 + 0.3 * getSaturation(b.rgb))
-      return scoreB - scoreA
-    })
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
 }
 
 /**
- * 이미지에서 주요 색상 추출
+ * 이미지 소스를 캔버스에 그릴 수 있는 형태와 원본 크기로 변환
  */
-export async function extractColors(
-  imageSource: HTMLImageElement | HTMLCanvasElement | string,
-  options: ColorExtractionOptions = {}
-): Promise<ExtractedColor[]> {
-  const opts = { ...DEFAULT_OPTIONS, ...options }
+async function resolveImageSource(
+  source: ImageSource,
+  signal: AbortSignal
+): Promise<DrawableSource> {
+  if (typeof source === 'string') {
+    return fromImageElement(await loadImage(source, signal), () => {})
+  }
 
-  // 이미지 로드
-  let image: HTMLImageElement | HTMLCanvasElement
+  if (source instanceof Blob) {
+    // 이미지가 그려질 때까지 URL을 유지하고 추출이 끝나면 해제
+    const url = URL.createObjectURL(source)
+    try {
+      return fromImageElement(await loadImage(url, signal), () => URL.revokeObjectURL(url))
+    } catch (err) {
+      URL.revokeObjectURL(url)
+      throw err
+    }
+  }
+
+  if (source instanceof HTMLImageElement) {
+    return fromImageElement(source, () => {})
+  }
+
+  if (source instanceof SVGSVGElement) {
+    return resolveImageSource(serializeSvg(source), signal)
+  }
+
+  if (source instanceof HTMLVideoElement) {
+    // 현재 재생 위치의 프레임을 캡처
+    await waitForVideoFrame(source, signal)
+    return {
+      image: source,
+      width: source.videoWidth,
+      height: source.videoHeight,
+      release: () => {},
+    }
+  }
 
-  if (typeof imageSource === 'string') {
-    image = await loadImage(imageSource)
-  } else {
-    image = imageSource
+  // HTMLCanvasElement, OffscreenCanvas, ImageBitmap
+  return { image: source, width: source.width, height: source.height, release: () => {} }
+}
+
+/**
+ * 이미지 요소의 원본 크기 확인
+ * 크기 정보가 없는 SVG는 기본 크기의 캔버스에 먼저 래스터화
+ */
+function fromImageElement(image: HTMLImageElement, release: () => void): DrawableSource {
+  if (image.naturalWidth > 0 && image.naturalHeight > 0) {
+    return { image, width: image.naturalWidth, height: image.naturalHeight, release }
   }
 
-  // Canvas에서 픽셀 데이터 추출
   const canvas = document.createElement('canvas')
-  const ctx = canvas.getContext('2d')!
+  canvas.width = image.width || DEFAULT_SVG_WIDTH
+  canvas.height = image.height || DEFAULT_SVG_HEIGHT
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return { image: canvas, width: canvas.width, height: canvas.height, release }
+}
 
-  // 성능을 위해 이미지 크기 제한
-  const maxDimension = 200
-  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height))
-  canvas.width = Math.floor(image.width * scale)
-  canvas.height = Math.floor(image.height * scale)
-
-  ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-
-  // Worker는 ml-kmeans와 호환되지 않으므로 메인 스레드에서 처리
-  return extractColorsFromImageData(imageData, {
-    colorCount: opts.colorCount,
-    quality: opts.quality,
-    maxIterations: opts.maxIterations,
-    sampleSize: opts.sampleSize,
+/**
+ * 인라인 SVG 요소를 크기가 지정된 SVG Blob으로 직렬화
+ * 렌더링 크기 → viewBox → 기본 크기 순으로 래스터화 크기 결정
+ */
+function serializeSvg(svg: SVGSVGElement): Blob {
+  const bounds = svg.getBoundingClientRect()
+  const viewBox = svg.viewBox.baseVal
+  const width = bounds.width || viewBox?.width || DEFAULT_SVG_WIDTH
+  const height = bounds.height || viewBox?.height || DEFAULT_SVG_HEIGHT
+
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
+  clone.setAttribute('width', String(width))
+  clone.setAttribute('height', String(height))
+
+  return new Blob([new XMLSerializer().serializeToString(clone)], {
+    type: 'image/svg+xml',
+  })
+}
+
+/**
+ * 비디오의 현재 프레임을 그릴 수 있을 때까지 대기
+ */
+function waitForVideoFrame(video: HTMLVideoElement, signal: AbortSignal): Promise<void> {
+  if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+    return Promise.resolve()
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('loadeddata', handleLoaded)
+      video.removeEventListener('error', handleError)
+      signal.removeEventListener('abort', handleAbort)
+    }
+    const handleLoaded = () => {
+      cleanup()
+      resolve()
+    }
+    const handleError = () => {
+      cleanup()
+      reject(new Error(video.error?.message || 'Failed to load video'))
+    }
+    const handleAbort = () => {
+      cleanup()
+      reject(signal.reason)
+    }
+    video.addEventListener('loadeddata', handleLoaded)
+    video.addEventListener('error', handleError)
+    signal.addEventListener('abort', handleAbort, { once: true })
   })
 }
 
 /**
  * URL에서 이미지 로드
+ * signal이 abort되면 요청을 중단하고 signal.reason으로 reject
  */
-function loadImage(src: string): Promise<HTMLImageElement> {
+function loadImage(src: string, signal: AbortSignal): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const img = new Image()
+    const handleAbort = () => {
+      img.onload = null
+      img.onerror = null
+      img.src = ''
+      reject(signal.reason)
+    }
     img.crossOrigin = 'anonymous'
-    img.onload = () => resolve(img)
-    img.onerror = reject
+    img.onload = () => {
+      signal.removeEventListener('abort', handleAbort)
+      resolve(img)
+    }
+    img.onerror = event => {
+      signal.removeEventListener('abort', handleAbort)
+      reject(event)
+    }
+    signal.addEventListener('abort', handleAbort, { once: true })
     img.src = src
   })
 }
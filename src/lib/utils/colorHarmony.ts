@@ -4,6 +4,8 @@
 
 import { getContrastRatio, getRelativeLuminance } from './colorExtractor'
 import type { RGB, ExtractedColor } from './colorExtractor'
+import { getApcaContrast, getApcaTarget } from './apca'
+import { oklabToRgb, rgbToOklab } from './colorSpace'
 
 export interface HSL {
   h: number
@@ -11,6 +13,51 @@ export interface HSL {
   l: number
 }
 
+/**
+ * 색상 조화 방식
+ * - complementary: 보색 (180°)
+ * - analogous: 유사색 (±30°)
+ * - triadic: 3등분 (120°, 240°)
+ * - splitComplementary: 보색 양옆 (150°, 210°)
+ * - tetradic: 직사각형 4색 (60°, 180°, 240°)
+ * - monochromatic: 같은 색상각의 밝기 변형
+ */
+export type HarmonyScheme =
+  | 'complementary'
+  | 'analogous'
+  | 'triadic'
+  | 'splitComplementary'
+  | 'tetradic'
+  | 'monochromatic'
+
+/**
+ * 색상각을 회전할 색 공간
+ * OKLCH는 회전해도 체감 밝기가 유지되고, HSL은 기존 디자인 도구와 같은 결과
+ */
+export type HarmonySpace = 'hsl' | 'oklch'
+
+/**
+ * 텍스트 대비 판단 방식
+ * - wcag2: WCAG 2.x 대비율 (최소값 기본 4.5)
+ * - apca: APCA 명도 대비 |Lc| (최소값 기본 75, 본문 크기 기준)
+ */
+export type ContrastAlgorithm = 'wcag2' | 'apca'
+
+export interface HarmonyOptions {
+  /** 기본: 'oklch' */
+  space?: HarmonySpace
+}
+
+/** 단계(50, 100 … 950)별 HEX 색상 */
+export type TonalScale = Record<number, string>
+
+export interface TonalScaleOptions {
+  /** 생성할 단계 (0: 흰색 쪽, 1000: 검정 쪽, 기본: 50, 100 … 900, 950) */
+  steps?: number[]
+  /** 밝기를 나눌 색 공간 (기본: 'oklch') */
+  space?: HarmonySpace
+}
+
 export interface BannerColors {
   background: string
   backgroundRgb: RGB
@@ -18,6 +65,10 @@ export interface BannerColors {
   textRgb: RGB
   gradient?: string
   accent?: string
+  /** tonalScales 옵션을 사용한 경우 배경색의 단계별 색상 */
+  backgroundScale?: TonalScale
+  /** tonalScales 옵션을 사용하고 악센트가 있는 경우 악센트의 단계별 색상 */
+  accentScale?: TonalScale
 }
 
 /**
@@ -88,7 +139,7 @@ export function hslToRgb(hsl: HSL): RGB {
 /**
  * RGB를 HEX로 변환
  */
-function rgbToHex(rgb: RGB): string {
+export function rgbToHex(rgb: RGB): string {
   const toHex = (n: number) => {
     const hex = Math.round(Math.max(0, Math.min(255, n))).toString(16)
     return hex.length === 1 ? '0' + hex : hex
@@ -115,27 +166,44 @@ export function adjustSaturation(rgb: RGB, amount: number): RGB {
 }
 
 /**
- * WCAG AA 기준 대비율을 만족하는 텍스트 색상 찾기
- * AA 기준: 일반 텍스트 4.5:1, 큰 텍스트 3:1
+ * 배경 위 텍스트의 대비 (wcag2: 대비율, apca: |Lc|)
+ */
+export function measureContrast(
+  background: RGB,
+  text: RGB,
+  algorithm: ContrastAlgorithm
+): number {
+  return algorithm === 'apca'
+    ? Math.abs(getApcaContrast(text, background))
+    : getContrastRatio(background, text)
+}
+
+/**
+ * 최소 대비를 만족하는 텍스트 색상 찾기
+ * WCAG AA 기준: 일반 텍스트 4.5:1, 큰 텍스트 3:1
+ * APCA 기준은 getApcaTarget으로 글자 크기와 굵기에 맞게 계산 (기본: 본문 크기 Lc 75)
  */
 export function findReadableTextColor(
   backgroundColor: RGB,
-  minContrastRatio: number = 4.5
+  minContrast?: number,
+  contrastAlgorithm: ContrastAlgorithm = 'wcag2'
 ): RGB {
+  const target = minContrast ?? (contrastAlgorithm === 'apca' ? getApcaTarget() : 4.5)
+  const contrast = (text: RGB) => measureContrast(backgroundColor, text, contrastAlgorithm)
   const bgLuminance = getRelativeLuminance(backgroundColor)
 
   // 먼저 순수 흰색/검정 테스트
   const white: RGB = { r: 255, g: 255, b: 255 }
   const black: RGB = { r: 0, g: 0, b: 0 }
 
-  const whiteContrast = getContrastRatio(backgroundColor, white)
-  const blackContrast = getContrastRatio(backgroundColor, black)
+  const whiteContrast = contrast(white)
+  const blackContrast = contrast(black)
 
   // 기본 흰색/검정 중 대비가 더 좋은 것 선택
-  if (whiteContrast >= minContrastRatio && whiteContrast >= blackContrast) {
+  if (whiteContrast >= target && whiteContrast >= blackContrast) {
     return white
   }
-  if (blackContrast >= minContrastRatio) {
+  if (blackContrast >= target) {
     return black
   }
 
@@ -143,11 +211,14 @@ export function findReadableTextColor(
   const hsl = rgbToHsl(backgroundColor)
 
   // 배경이 어두우면 밝은 텍스트, 밝으면 어두운 텍스트
-  if (bgLuminance < 0.5) {
+  // APCA는 중간 밝기 배경에서 둘 다 목표에 못 미칠 수 있으므로 대비가 더 큰 쪽을 사용
+  const useLightText =
+    contrastAlgorithm === 'apca' ? whiteContrast >= blackContrast : bgLuminance < 0.5
+  if (useLightText) {
     // 밝은 색상 찾기
     for (let l = 1; l >= 0.5; l -= 0.05) {
       const testColor = hslToRgb({ h: hsl.h, s: Math.min(0.1, hsl.s), l })
-      if (getContrastRatio(backgroundColor, testColor) >= minContrastRatio) {
+      if (contrast(testColor) >= target) {
         return testColor
       }
     }
@@ -156,7 +227,7 @@ export function findReadableTextColor(
     // 어두운 색상 찾기
     for (let l = 0; l <= 0.5; l += 0.05) {
       const testColor = hslToRgb({ h: hsl.h, s: Math.min(0.1, hsl.s), l })
-      if (getContrastRatio(backgroundColor, testColor) >= minContrastRatio) {
+      if (contrast(testColor) >= target) {
         return testColor
       }
     }
@@ -211,8 +282,19 @@ export function createGradient(
   colors: ExtractedColor[],
   direction: 'horizontal' | 'vertical' | 'diagonal' = 'horizontal'
 ): string {
-  if (colors.length === 0) return 'transparent'
-  if (colors.length === 1) return colors[0].hex
+  // 최대 3개 색상 사용
+  return buildGradient(colors.slice(0, 3).map(c => c.hex), direction)
+}
+
+/**
+ * HEX 목록을 균등 간격의 linear-gradient CSS로 변환
+ */
+function buildGradient(
+  hexes: string[],
+  direction: 'horizontal' | 'vertical' | 'diagonal'
+): string {
+  if (hexes.length === 0) return 'transparent'
+  if (hexes.length === 1) return hexes[0]
 
   const directionMap = {
     horizontal: 'to right',
@@ -220,12 +302,10 @@ export function createGradient(
     diagonal: 'to bottom right',
   }
 
-  // 최대 3개 색상 사용
-  const selectedColors = colors.slice(0, 3)
-  const stops = selectedColors
-    .map((c, i) => {
-      const position = (i / (selectedColors.length - 1)) * 100
-      return `${c.hex} ${position}%`
+  const stops = hexes
+    .map((hex, i) => {
+      const position = (i / (hexes.length - 1)) * 100
+      return `${hex} ${position}%`
     })
     .join(', ')
 
@@ -263,6 +343,177 @@ export function createSoftGradient(
   return `linear-gradient(${directionMap[direction]}, ${rgbToHex(color1)}, ${rgbToHex(color2)}, ${rgbToHex(color3)})`
 }
 
+/** 조화 방식별 기준 색상에 더할 색상각 (기준 색상 제외) */
+const HARMONY_ANGLES: Record<Exclude<HarmonyScheme, 'monochromatic'>, number[]> = {
+  complementary: [180],
+  analogous: [-30, 30],
+  triadic: [120, 240],
+  splitComplementary: [150, 210],
+  tetradic: [60, 180, 240],
+}
+
+/** monochromatic에서 기준 색상에 더할 밝기 (밝게, 어둡게, 더 밝게, 더 어둡게) */
+const MONOCHROMATIC_STEPS = [0.15, -0.15, 0.3, -0.3]
+
+interface OKLCH {
+  l: number
+  c: number
+  h: number
+}
+
+function rgbToOklch(rgb: RGB): OKLCH {
+  const [l, a, b] = rgbToOklab(rgb.r, rgb.g, rgb.b)
+  return { l, c: Math.hypot(a, b), h: ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360 }
+}
+
+/**
+ * OKLCH를 RGB로 변환
+ * sRGB 범위를 벗어나면 명도와 색상각을 유지한 채 채도를 이분 탐색으로 줄임
+ */
+function oklchToRgb(oklch: OKLCH): RGB {
+  const l = Math.max(0, Math.min(1, oklch.l))
+  const rad = (oklch.h * Math.PI) / 180
+  const toRgb = (c: number) => oklabToRgb(l, c * Math.cos(rad), c * Math.sin(rad))
+  const inGamut = (values: number[]) => values.every(v => v >= -0.5 && v <= 255.5)
+
+  let values = toRgb(oklch.c)
+  if (!inGamut(values)) {
+    let low = 0
+    let high = oklch.c
+    for (let i = 0; i < 16; i++) {
+      const mid = (low + high) / 2
+      if (inGamut(toRgb(mid))) {
+        low = mid
+      } else {
+        high = mid
+      }
+    }
+    values = toRgb(low)
+  }
+
+  const clamp = (v: number) => Math.round(Math.max(0, Math.min(255, v)))
+  return { r: clamp(values[0]), g: clamp(values[1]), b: clamp(values[2]) }
+}
+
+function getRgb(color: RGB | ExtractedColor): RGB {
+  return 'rgb' in color ? color.rgb : color
+}
+
+/**
+ * 색상각을 회전한 색상 목록 (기준 색상이 첫 번째)
+ */
+function rotateHue(color: RGB | ExtractedColor, angles: number[], space: HarmonySpace): RGB[] {
+  const base = getRgb(color)
+
+  if (space === 'hsl') {
+    const hsl = rgbToHsl(base)
+    return [base, ...angles.map(angle => hslToRgb({ ...hsl, h: (hsl.h + angle + 360) % 360 }))]
+  }
+
+  const oklch = rgbToOklch(base)
+  return [base, ...angles.map(angle => oklchToRgb({ ...oklch, h: (oklch.h + angle + 360) % 360 }))]
+}
+
+/**
+ * 보색 조화 (기준 색상, 보색)
+ */
+export function complementary(color: RGB | ExtractedColor, options: HarmonyOptions = {}): RGB[] {
+  return rotateHue(color, HARMONY_ANGLES.complementary, options.space ?? 'oklch')
+}
+
+/**
+ * 유사색 조화 (기준 색상, -30°, +30°)
+ */
+export function analogous(color: RGB | ExtractedColor, options: HarmonyOptions = {}): RGB[] {
+  return rotateHue(color, HARMONY_ANGLES.analogous, options.space ?? 'oklch')
+}
+
+/**
+ * 3등분 조화 (기준 색상, +120°, +240°)
+ */
+export function triadic(color: RGB | ExtractedColor, options: HarmonyOptions = {}): RGB[] {
+  return rotateHue(color, HARMONY_ANGLES.triadic, options.space ?? 'oklch')
+}
+
+/**
+ * 분할 보색 조화 (기준 색상, +150°, +210°)
+ */
+export function splitComplementary(
+  color: RGB | ExtractedColor,
+  options: HarmonyOptions = {}
+): RGB[] {
+  return rotateHue(color, HARMONY_ANGLES.splitComplementary, options.space ?? 'oklch')
+}
+
+/**
+ * 직사각형 4색 조화 (기준 색상, +60°, +180°, +240°)
+ */
+export function tetradic(color: RGB | ExtractedColor, options: HarmonyOptions = {}): RGB[] {
+  return rotateHue(color, HARMONY_ANGLES.tetradic, options.space ?? 'oklch')
+}
+
+/**
+ * 단색 조화 (기준 색상, 밝게, 어둡게, 더 밝게, 더 어둡게)
+ * 색상각과 채도를 유지하고 밝기만 바꾸며, 범위를 벗어난 밝기는 0-1로 제한
+ */
+export function monochromatic(color: RGB | ExtractedColor, options: HarmonyOptions = {}): RGB[] {
+  const base = getRgb(color)
+
+  if ((options.space ?? 'oklch') === 'hsl') {
+    return [base, ...MONOCHROMATIC_STEPS.map(step => adjustLightness(base, step))]
+  }
+
+  const oklch = rgbToOklch(base)
+  return [base, ...MONOCHROMATIC_STEPS.map(step => oklchToRgb({ ...oklch, l: oklch.l + step }))]
+}
+
+/**
+ * 조화 방식 이름으로 관련 색상 생성 (기준 색상이 첫 번째)
+ */
+export function generateHarmony(
+  color: RGB | ExtractedColor,
+  scheme: HarmonyScheme,
+  options: HarmonyOptions = {}
+): RGB[] {
+  if (scheme === 'monochromatic') return monochromatic(color, options)
+  return rotateHue(color, HARMONY_ANGLES[scheme], options.space ?? 'oklch')
+}
+
+const TONAL_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950]
+
+/** 50단계와 950단계의 밝기, 그 사이와 바깥은 선형 보간 후 0-1로 제한 */
+const TONAL_LIGHTNESS_50 = 0.97
+const TONAL_LIGHTNESS_950 = 0.27
+
+/**
+ * 한 색상에서 Tailwind/Material 방식의 단계별 색상 생성
+ * 색상각과 채도는 유지하고 밝기만 단계에 따라 고르게 나누며,
+ * OKLCH에서는 sRGB 범위를 벗어나는 채도를 명도와 색상각을 유지한 채 줄임
+ */
+export function generateTonalScale(
+  color: RGB | ExtractedColor,
+  options: TonalScaleOptions = {}
+): TonalScale {
+  const { steps = TONAL_STEPS, space = 'oklch' } = options
+  const base = getRgb(color)
+  const hsl = rgbToHsl(base)
+  const oklch = rgbToOklch(base)
+  const scale: TonalScale = {}
+
+  for (const step of steps) {
+    const t = (step - 50) / 900
+    const lightness = Math.max(
+      0,
+      Math.min(1, TONAL_LIGHTNESS_50 + (TONAL_LIGHTNESS_950 - TONAL_LIGHTNESS_50) * t)
+    )
+    const rgb =
+      space === 'hsl' ? hslToRgb({ ...hsl, l: lightness }) : oklchToRgb({ ...oklch, l: lightness })
+    scale[step] = rgbToHex(rgb)
+  }
+
+  return scale
+}
+
 /**
  * 추출된 색상에서 배너 색상 세트 생성
  */
@@ -272,12 +523,29 @@ export function generateBannerColors(
     preferDark?: boolean
     useGradient?: boolean
     gradientDirection?: 'horizontal' | 'vertical' | 'diagonal'
+    /** 지정하면 악센트와 그라데이션을 배경색의 조화 색상으로 생성 */
+    scheme?: HarmonyScheme
+    /** scheme의 색상각 회전 공간 (기본: 'oklch') */
+    schemeSpace?: HarmonySpace
+    /** 배경색과 악센트의 단계별 색상도 생성 (true면 기본 옵션 사용) */
+    tonalScales?: boolean | TonalScaleOptions
+    /** 텍스트 색상의 대비 판단 방식 (기본: 'wcag2') */
+    contrastAlgorithm?: ContrastAlgorithm
+    /** apca일 때 목표 Lc를 정할 텍스트 크기(px)와 굵기 (기본: 16, 400) */
+    fontSize?: number
+    fontWeight?: number
   } = {}
 ): BannerColors {
   const {
     preferDark = false,
     useGradient = true,
     gradientDirection = 'horizontal',
+    scheme,
+    schemeSpace = 'oklch',
+    tonalScales = false,
+    contrastAlgorithm = 'wcag2',
+    fontSize,
+    fontWeight,
   } = options
 
   // 기본 배경색 선택
@@ -294,7 +562,9 @@ export function generateBannerColors(
   }
 
   const backgroundRgb = selectedBg.rgb
-  const textRgb = findReadableTextColor(backgroundRgb)
+  const minContrast =
+    contrastAlgorithm === 'apca' ? getApcaTarget(fontSize, fontWeight) : undefined
+  const textRgb = findReadableTextColor(backgroundRgb, minContrast, contrastAlgorithm)
 
   const result: BannerColors = {
     background: selectedBg.hex,
@@ -302,24 +572,49 @@ export function generateBannerColors(
     text: rgbToHex(textRgb),
     textRgb,
   }
+  let accentRgb: RGB | null = null
 
-  // 그라데이션 옵션
-  if (useGradient) {
-    if (extractedColors.length >= 2) {
-      // 여러 색상이 있으면 추출된 색상으로 그라데이션
-      result.gradient = createGradient(
-        extractedColors.slice(0, 3),
+  if (scheme) {
+    // 배경색의 조화 색상을 악센트로, 배경색을 가운데에 두고 양옆을 그라데이션으로 사용
+    const harmony = generateHarmony(backgroundRgb, scheme, { space: schemeSpace })
+    const hexes = harmony.map(rgbToHex)
+
+    if (useGradient) {
+      result.gradient = buildGradient(
+        hexes.length >= 3 ? [hexes[1], hexes[0], hexes[2]] : hexes,
         gradientDirection
       )
-    } else {
-      // 단일 색상 기반 부드러운 그라데이션
-      result.gradient = createSoftGradient(backgroundRgb, gradientDirection)
+    }
+    result.accent = hexes[1]
+    accentRgb = harmony[1]
+  } else {
+    // 그라데이션 옵션
+    if (useGradient) {
+      if (extractedColors.length >= 2) {
+        // 여러 색상이 있으면 추출된 색상으로 그라데이션
+        result.gradient = createGradient(
+          extractedColors.slice(0, 3),
+          gradientDirection
+        )
+      } else {
+        // 단일 색상 기반 부드러운 그라데이션
+        result.gradient = createSoftGradient(backgroundRgb, gradientDirection)
+      }
+    }
+
+    // 악센트 색상 (두 번째로 빈번한 색상)
+    if (extractedColors.length >= 2) {
+      result.accent = extractedColors[1].hex
+      accentRgb = extractedColors[1].rgb
     }
   }
 
-  // 악센트 색상 (두 번째로 빈번한 색상)
-  if (extractedColors.length >= 2) {
-    result.accent = extractedColors[1].hex
+  if (tonalScales) {
+    const scaleOptions = tonalScales === true ? {} : tonalScales
+    result.backgroundScale = generateTonalScale(backgroundRgb, scaleOptions)
+    if (accentRgb) {
+      result.accentScale = generateTonalScale(accentRgb, scaleOptions)
+    }
   }
 
   return result
@@ -0,0 +1,189 @@
+/**
+ * 클러스터링 후 지각적으로 비슷한 색상 병합
+ *
+ * 인라인 Worker 코드에 함수 소스가 그대로 삽입되므로
+ * 각 함수는 이 파일, colorSpace, quantize의 함수 외에는 외부 값을 참조하지 않아야 함
+ */
+
+import { rgbToLab, rgbToOklab } from './colorSpace'
+import { medianCut } from './quantize'
+import type { RGB } from './extractionCore'
+
+/**
+ * 색차 지표
+ * - deltaE2000: CIEDE2000 (약 2.3 이하면 대부분 구분 불가)
+ * - oklab: OKLab 유클리드 거리 (약 0.02 이하면 대부분 구분 불가)
+ */
+export type ColorDifferenceMetric = 'deltaE2000' | 'oklab'
+
+/**
+ * CIEDE2000 색차 계산
+ */
+export function deltaE2000(lab1: number[], lab2: number[]): number {
+  const [l1, a1, b1] = lab1
+  const [l2, a2, b2] = lab2
+  const rad = Math.PI / 180
+
+  const c1 = Math.sqrt(a1 * a1 + b1 * b1)
+  const c2 = Math.sqrt(a2 * a2 + b2 * b2)
+  const cMean = (c1 + c2) / 2
+  const cMean7 = Math.pow(cMean, 7)
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + Math.pow(25, 7))))
+
+  const a1p = a1 * (1 + g)
+  const a2p = a2 * (1 + g)
+  const c1p = Math.sqrt(a1p * a1p + b1 * b1)
+  const c2p = Math.sqrt(a2p * a2p + b2 * b2)
+
+  const hueAngle = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0
+    const h = Math.atan2(b, a) / rad
+    return h >= 0 ? h : h + 360
+  }
+  const h1p = hueAngle(b1, a1p)
+  const h2p = hueAngle(b2, a2p)
+
+  const dLp = l2 - l1
+  const dCp = c2p - c1p
+
+  let dhp = 0
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p
+    if (dhp > 180) dhp -= 360
+    else if (dhp < -180) dhp += 360
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * rad)
+
+  const lMean = (l1 + l2) / 2
+  const cpMean = (c1p + c2p) / 2
+
+  let hpMean = h1p + h2p
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hpMean = (h1p + h2p) / 2
+    else if (h1p + h2p < 360) hpMean = (h1p + h2p + 360) / 2
+    else hpMean = (h1p + h2p - 360) / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hpMean - 30) * rad) +
+    0.24 * Math.cos(2 * hpMean * rad) +
+    0.32 * Math.cos((3 * hpMean + 6) * rad) -
+    0.2 * Math.cos((4 * hpMean - 63) * rad)
+
+  const dTheta = 30 * Math.exp(-Math.pow((hpMean - 275) / 25, 2))
+  const cpMean7 = Math.pow(cpMean, 7)
+  const rc = 2 * Math.sqrt(cpMean7 / (cpMean7 + Math.pow(25, 7)))
+  const lMean50 = (lMean - 50) * (lMean - 50)
+  const sl = 1 + (0.015 * lMean50) / Math.sqrt(20 + lMean50)
+  const sc = 1 + 0.045 * cpMean
+  const sh = 1 + 0.015 * cpMean * t
+  const rt = -Math.sin(2 * dTheta * rad) * rc
+
+  return Math.sqrt(
+    Math.pow(dLp / sl, 2) +
+      Math.pow(dCp / sc, 2) +
+      Math.pow(dHp / sh, 2) +
+      rt * (dCp / sc) * (dHp / sh)
+  )
+}
+
+/**
+ * 두 RGB 색상의 지각적 차이 계산
+ */
+export function colorDifference(c1: RGB, c2: RGB, metric: ColorDifferenceMetric): number {
+  if (metric === 'oklab') {
+    const p = rgbToOklab(c1.r, c1.g, c1.b)
+    const q = rgbToOklab(c2.r, c2.g, c2.b)
+    return Math.sqrt((p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2)
+  }
+  return deltaE2000(rgbToLab(c1.r, c1.g, c1.b), rgbToLab(c2.r, c2.g, c2.b))
+}
+
+/**
+ * 임계값보다 가까운 클러스터를 병합
+ * targetCount가 0보다 크면 병합 후 가장 큰 클러스터를 다시 나눠 색상 수 유지
+ */
+export function mergeSimilarColors(
+  pixels: number[][],
+  centroids: RGB[],
+  counts: number[],
+  threshold: number,
+  metric: ColorDifferenceMetric,
+  targetCount: number
+): { centroids: RGB[]; counts: number[] } {
+  const merged = centroids.map((c, i) => ({ ...c, count: counts[i] }))
+
+  // 가장 가까운 쌍이 임계값 이상이 될 때까지 인구 가중 평균으로 병합
+  for (;;) {
+    let pairA = -1
+    let pairB = -1
+    let minDiff = threshold
+    for (let i = 0; i < merged.length; i++) {
+      for (let j = i + 1; j < merged.length; j++) {
+        const diff = colorDifference(merged[i], merged[j], metric)
+        if (diff < minDiff) {
+          minDiff = diff
+          pairA = i
+          pairB = j
+        }
+      }
+    }
+    if (pairA === -1) break
+
+    const a = merged[pairA]
+    const b = merged[pairB]
+    const total = a.count + b.count
+    merged[pairA] = {
+      r: total > 0 ? (a.r * a.count + b.r * b.count) / total : a.r,
+      g: total > 0 ? (a.g * a.count + b.g * b.count) / total : a.g,
+      b: total > 0 ? (a.b * a.count + b.b * b.count) / total : a.b,
+      count: total,
+    }
+    merged.splice(pairB, 1)
+  }
+
+  // 가장 큰 클러스터를 median cut으로 둘로 나눠 요청한 색상 수 복원
+  for (let attempt = 0; merged.length < targetCount && attempt < targetCount; attempt++) {
+    let largest = 0
+    for (let i = 1; i < merged.length; i++) {
+      if (merged[i].count > merged[largest].count) largest = i
+    }
+
+    const members = pixels.filter(p => {
+      let nearest = 0
+      let minDist = Infinity
+      for (let i = 0; i < merged.length; i++) {
+        const dr = p[0] - merged[i].r
+        const dg = p[1] - merged[i].g
+        const db = p[2] - merged[i].b
+        const dist = dr * dr + dg * dg + db * db
+        if (dist < minDist) {
+          minDist = dist
+          nearest = i
+        }
+      }
+      return nearest === largest
+    })
+
+    const split = medianCut(members, 2)
+    if (split.centroids.length < 2) break
+
+    const halves = split.centroids.map((c, i) => ({
+      r: c[0],
+      g: c[1],
+      b: c[2],
+      count: split.counts[i],
+    }))
+
+    // 나눈 두 색상이 다시 병합 대상이면 더 나눌 의미가 없음
+    if (colorDifference(halves[0], halves[1], metric) < threshold) break
+
+    merged.splice(largest, 1, halves[0], halves[1])
+  }
+
+  return {
+    centroids: merged.map(c => ({ r: Math.round(c.r), g: Math.round(c.g), b: Math.round(c.b) })),
+    counts: merged.map(c => c.count),
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * 사람이 읽을 수 있는 색상 이름
+ * CMS 편집 화면, alt/aria 설명 등 HEX 코드 대신 이름이 필요한 곳에서 사용
+ */
+
+import { deltaE2000 } from './colorMerge'
+import { rgbToLab, rgbToOklab } from './colorSpace'
+import type { ExtractedColor, RGB } from './extractionCore'
+
+export interface ColorName {
+  /** 지각적으로 가장 가까운 CSS 색상 이름 */
+  name: string
+  /** 해당 CSS 색상의 HEX 값 */
+  hex: string
+  /** 입력 색상과의 CIEDE2000 색차 */
+  distance: number
+  /** 대략적인 색상 계열 (예: 'muted teal', 'dark red', 'warm gray') */
+  family: string
+}
+
+/**
+ * CSS 명명 색상 (CSS Color Module Level 4)
+ * 같은 값의 별칭(aqua/cyan, fuchsia/magenta, grey 표기)은 하나만 포함
+ */
+const CSS_NAMED_COLORS: [string, string][] = [
+  ['aliceblue', '#f0f8ff'],
+  ['antiquewhite', '#faebd7'],
+  ['aquamarine', '#7fffd4'],
+  ['azure', '#f0ffff'],
+  ['beige', '#f5f5dc'],
+  ['bisque', '#ffe4c4'],
+  ['black', '#000000'],
+  ['blanchedalmond', '#ffebcd'],
+  ['blue', '#0000ff'],
+  ['blueviolet', '#8a2be2'],
+  ['brown', '#a52a2a'],
+  ['burlywood', '#deb887'],
+  ['cadetblue', '#5f9ea0'],
+  ['chartreuse', '#7fff00'],
+  ['chocolate', '#d2691e'],
+  ['coral', '#ff7f50'],
+  ['cornflowerblue', '#6495ed'],
+  ['cornsilk', '#fff8dc'],
+  ['crimson', '#dc143c'],
+  ['cyan', '#00ffff'],
+  ['darkblue', '#00008b'],
+  ['darkcyan', '#008b8b'],
+  ['darkgoldenrod', '#b8860b'],
+  ['darkgray', '#a9a9a9'],
+  ['darkgreen', '#006400'],
+  ['darkkhaki', '#bdb76b'],
+  ['darkmagenta', '#8b008b'],
+  ['darkolivegreen', '#556b2f'],
+  ['darkorange', '#ff8c00'],
+  ['darkorchid', '#9932cc'],
+  ['darkred', '#8b0000'],
+  ['darksalmon', '#e9967a'],
+  ['darkseagreen', '#8fbc8f'],
+  ['darkslateblue', '#483d8b'],
+  ['darkslategray', '#2f4f4f'],
+  ['darkturquoise', '#00ced1'],
+  ['darkviolet', '#9400d3'],
+  ['deeppink', '#ff1493'],
+  ['deepskyblue', '#00bfff'],
+  ['dimgray', '#696969'],
+  ['dodgerblue', '#1e90ff'],
+  ['firebrick', '#b22222'],
+  ['floralwhite', '#fffaf0'],
+  ['forestgreen', '#228b22'],
+  ['gainsboro', '#dcdcdc'],
+  ['ghostwhite', '#f8f8ff'],
+  ['gold', '#ffd700'],
+  ['goldenrod', '#daa520'],
+  ['gray', '#808080'],
+  ['green', '#008000'],
+  ['greenyellow', '#adff2f'],
+  ['honeydew', '#f0fff0'],
+  ['hotpink', '#ff69b4'],
+  ['indianred', '#cd5c5c'],
+  ['indigo', '#4b0082'],
+  ['ivory', '#fffff0'],
+  ['khaki', '#f0e68c'],
+  ['lavender', '#e6e6fa'],
+  ['lavenderblush', '#fff0f5'],
+  ['lawngreen', '#7cfc00'],
+  ['lemonchiffon', '#fffacd'],
+  ['lightblue', '#add8e6'],
+  ['lightcoral', '#f08080'],
+  ['lightcyan', '#e0ffff'],
+  ['lightgoldenrodyellow', '#fafad2'],
+  ['lightgray', '#d3d3d3'],
+  ['lightgreen', '#90ee90'],
+  ['lightpink', '#ffb6c1'],
+  ['lightsalmon', '#ffa07a'],
+  ['lightseagreen', '#20b2aa'],
+  ['lightskyblue', '#87cefa'],
+  ['lightslategray', '#778899'],
+  ['lightsteelblue', '#b0c4de'],
+  ['lightyellow', '#ffffe0'],
+  ['lime', '#00ff00'],
+  ['limegreen', '#32cd32'],
+  ['linen', '#faf0e6'],
+  ['magenta', '#ff00ff'],
+  ['maroon', '#800000'],
+  ['mediumaquamarine', '#66cdaa'],
+  ['mediumblue', '#0000cd'],
+  ['mediumorchid', '#ba55d3'],
+  ['mediumpurple', '#9370db'],
+  ['mediumseagreen', '#3cb371'],
+  ['mediumslateblue', '#7b68ee'],
+  ['mediumspringgreen', '#00fa9a'],
+  ['mediumturquoise', '#48d1cc'],
+  ['mediumvioletred', '#c71585'],
+  ['midnightblue', '#191970'],
+  ['mintcream', '#f5fffa'],
+  ['mistyrose', '#ffe4e1'],
+  ['moccasin', '#ffe4b5'],
+  ['navajowhite', '#ffdead'],
+  ['navy', '#000080'],
+  ['oldlace', '#fdf5e6'],
+  ['olive', '#808000'],
+  ['olivedrab', '#6b8e23'],
+  ['orange', '#ffa500'],
+  ['orangered', '#ff4500'],
+  ['orchid', '#da70d6'],
+  ['palegoldenrod', '#eee8aa'],
+  ['palegreen', '#98fb98'],
+  ['paleturquoise', '#afeeee'],
+  ['palevioletred', '#db7093'],
+  ['papayawhip', '#ffefd5'],
+  ['peachpuff', '#ffdab9'],
+  ['peru', '#cd853f'],
+  ['pink', '#ffc0cb'],
+  ['plum', '#dda0dd'],
+  ['powderblue', '#b0e0e6'],
+  ['purple', '#800080'],
+  ['rebeccapurple', '#663399'],
+  ['red', '#ff0000'],
+  ['rosybrown', '#bc8f8f'],
+  ['royalblue', '#4169e1'],
+  ['saddlebrown', '#8b4513'],
+  ['salmon', '#fa8072'],
+  ['sandybrown', '#f4a460'],
+  ['seagreen', '#2e8b57'],
+  ['seashell', '#fff5ee'],
+  ['sienna', '#a0522d'],
+  ['silver', '#c0c0c0'],
+  ['skyblue', '#87ceeb'],
+  ['slateblue', '#6a5acd'],
+  ['slategray', '#708090'],
+  ['snow', '#fffafa'],
+  ['springgreen', '#00ff7f'],
+  ['steelblue', '#4682b4'],
+  ['tan', '#d2b48c'],
+  ['teal', '#008080'],
+  ['thistle', '#d8bfd8'],
+  ['tomato', '#ff6347'],
+  ['turquoise', '#40e0d0'],
+  ['violet', '#ee82ee'],
+  ['wheat', '#f5deb3'],
+  ['white', '#ffffff'],
+  ['whitesmoke', '#f5f5f5'],
+  ['yellow', '#ffff00'],
+  ['yellowgreen', '#9acd32'],
+]
+
+/**
+ * OKLCH 색상각 기준 색상 계열 (시작 각도 오름차순)
+ * 0°를 지나는 pink는 마지막 구간과 이어짐
+ */
+const HUE_FAMILIES: [number, string][] = [
+  [0, 'pink'],
+  [15, 'red'],
+  [45, 'orange'],
+  [85, 'yellow'],
+  [118, 'green'],
+  [170, 'teal'],
+  [215, 'blue'],
+  [285, 'purple'],
+  [340, 'pink'],
+]
+
+/** 명명 색상의 Lab 값 (처음 사용할 때 계산) */
+let namedColorLabs: number[][] | null = null
+
+function parseHex(hex: string): RGB {
+  const value = parseInt(hex.slice(1), 16)
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 }
+}
+
+/**
+ * OKLCH 명도/채도/색상각으로 대략적인 색상 계열 결정
+ */
+function getColorFamily(rgb: RGB): string {
+  const [l, a, b] = rgbToOklab(rgb.r, rgb.g, rgb.b)
+  const chroma = Math.sqrt(a * a + b * b)
+  const hue = ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360
+
+  // 무채색 (색조가 약간 남아 있는 회색은 따뜻함/차가움으로 구분)
+  if (chroma < 0.03) {
+    if (l < 0.2) return 'black'
+    if (l > 0.93) return 'white'
+    const tone = chroma < 0.015 ? 'gray' : hue >= 15 && hue < 118 ? 'warm gray' : 'cool gray'
+    if (l < 0.4) return `dark ${tone}`
+    if (l > 0.8) return `light ${tone}`
+    return tone
+  }
+
+  let hueName = HUE_FAMILIES[0][1]
+  for (const [start, name] of HUE_FAMILIES) {
+    if (hue >= start) hueName = name
+  }
+
+  // 어두운 주황/노랑은 갈색/올리브로 인식되는 경우가 많음
+  if (hueName === 'orange' && l < 0.55) hueName = 'brown'
+  if (hueName === 'yellow' && l < 0.65) hueName = 'olive'
+
+  if (l < 0.4) return `dark ${hueName}`
+  if (l > 0.8 && chroma < 0.17) return `light ${hueName}`
+  if (chroma < 0.08) return `muted ${hueName}`
+  if (chroma >= 0.17) return `vivid ${hueName}`
+  return hueName
+}
+
+/**
+ * 지각적으로 가장 가까운 CSS 명명 색상과 대략적인 색상 계열 반환
+ */
+export function nameColor(rgb: RGB): ColorName {
+  if (!namedColorLabs) {
+    namedColorLabs = CSS_NAMED_COLORS.map(([, hex]) => {
+      const c = parseHex(hex)
+      return rgbToLab(c.r, c.g, c.b)
+    })
+  }
+
+  const lab = rgbToLab(rgb.r, rgb.g, rgb.b)
+  let nearest = 0
+  let minDistance = Infinity
+  for (let i = 0; i < namedColorLabs.length; i++) {
+    const distance = deltaE2000(lab, namedColorLabs[i])
+    if (distance < minDistance) {
+      minDistance = distance
+      nearest = i
+    }
+  }
+
+  const [name, hex] = CSS_NAMED_COLORS[nearest]
+  return { name, hex, distance: minDistance, family: getColorFamily(rgb) }
+}
+
+/**
+ * 추출한 색상에 이름과 색상 계열 추가
+ */
+export function withColorNames(colors: ExtractedColor[]): ExtractedColor[] {
+  return colors.map(color => {
+    const { name, family } = nameColor(color.rgb)
+    return { ...color, name, family }
+  })
+}
+
+/**
+ * 주요 색상 계열을 나열한 설명 문장 (예: 'muted teal, dark red and light gray')
+ * alt/aria 설명에 사용하며 같은 계열은 한 번만 포함
+ */
+export function describePalette(colors: ExtractedColor[], maxColors = 3): string {
+  const families: string[] = []
+  for (const color of colors) {
+    const family = color.family ?? nameColor(color.rgb).family
+    if (!families.includes(family)) families.push(family)
+    if (families.length >= maxColors) break
+  }
+
+  if (families.length <= 1) return families[0] ?? ''
+  return `${families.slice(0, -1).join(', ')} and ${families[families.length - 1]}`
+}
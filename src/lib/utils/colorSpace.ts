@@ -0,0 +1,151 @@
+/**
+ * 색 공간 변환 유틸리티 (sRGB ↔ CIELAB / OKLab)
+ *
+ * 인라인 Worker 코드에 함수 소스가 그대로 삽입되므로
+ * 각 함수는 이 파일의 다른 함수 외에는 외부 값을 참조하지 않아야 함
+ */
+
+import type { RGB } from './extractionCore'
+
+export type ColorSpace = 'rgb' | 'lab' | 'oklab'
+
+/**
+ * sRGB 채널(0-255)을 선형 값(0-1)으로 변환
+ */
+export function srgbToLinear(channel: number): number {
+  const c = channel / 255
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+}
+
+/**
+ * 선형 값(0-1)을 sRGB 채널(0-255)로 변환
+ */
+export function linearToSrgb(value: number): number {
+  const c =
+    value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055
+  return c * 255
+}
+
+/**
+ * sRGB를 CIELAB(D65)으로 변환
+ */
+export function rgbToLab(r: number, g: number, b: number): number[] {
+  const lr = srgbToLinear(r)
+  const lg = srgbToLinear(g)
+  const lb = srgbToLinear(b)
+
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb
+  const z = (0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / 1.08883
+
+  const f = (t: number) =>
+    t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116
+
+  const fx = f(x)
+  const fy = f(y)
+  const fz = f(z)
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+/**
+ * CIELAB(D65)을 sRGB로 변환 (반올림/클램핑 전 값)
+ */
+export function labToRgb(l: number, a: number, b: number): number[] {
+  const fy = (l + 16) / 116
+  const fx = fy + a / 500
+  const fz = fy - b / 200
+
+  const finv = (t: number) =>
+    t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27)
+
+  const x = finv(fx) * 0.95047
+  const y = finv(fy)
+  const z = finv(fz) * 1.08883
+
+  return [
+    linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    linearToSrgb(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  ]
+}
+
+/**
+ * sRGB를 OKLab으로 변환
+ */
+export function rgbToOklab(r: number, g: number, b: number): number[] {
+  const lr = srgbToLinear(r)
+  const lg = srgbToLinear(g)
+  const lb = srgbToLinear(b)
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb)
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb)
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb)
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ]
+}
+
+/**
+ * OKLab을 sRGB로 변환 (반올림/클램핑 전 값)
+ */
+export function oklabToRgb(l: number, a: number, b: number): number[] {
+  const l_ = l + 0.3963377774 * a + 0.2158037573 * b
+  const m_ = l - 0.1055613458 * a - 0.0638541728 * b
+  const s_ = l - 0.0894841775 * a - 1.291485548 * b
+
+  const lc = l_ * l_ * l_
+  const mc = m_ * m_ * m_
+  const sc = s_ * s_ * s_
+
+  return [
+    linearToSrgb(4.0767416621 * lc - 3.3077115913 * mc + 0.2309699292 * sc),
+    linearToSrgb(-1.2684380046 * lc + 2.6097574011 * mc - 0.3413193965 * sc),
+    linearToSrgb(-0.0041960863 * lc - 0.7034186147 * mc + 1.707614701 * sc),
+  ]
+}
+
+/**
+ * sRGB 픽셀을 클러스터링용 색 공간 좌표로 변환
+ */
+export function toColorSpace(
+  r: number,
+  g: number,
+  b: number,
+  space: ColorSpace
+): number[] {
+  switch (space) {
+    case 'lab':
+      return rgbToLab(r, g, b)
+    case 'oklab':
+      return rgbToOklab(r, g, b)
+    case 'rgb':
+    default:
+      return [r, g, b]
+  }
+}
+
+/**
+ * 색 공간 좌표를 sRGB로 되돌림 (0-255 정수로 클램핑)
+ */
+export function fromColorSpace(values: number[], space: ColorSpace): RGB {
+  let rgb: number[]
+
+  switch (space) {
+    case 'lab':
+      rgb = labToRgb(values[0], values[1], values[2])
+      break
+    case 'oklab':
+      rgb = oklabToRgb(values[0], values[1], values[2])
+      break
+    case 'rgb':
+    default:
+      rgb = values
+  }
+
+  const clamp = (n: number) => Math.round(Math.max(0, Math.min(255, n)))
+  return { r: clamp(rgb[0]), g: clamp(rgb[1]), b: clamp(rgb[2]) }
+}
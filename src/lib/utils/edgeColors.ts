@@ -0,0 +1,71 @@
+/**
+ * 이미지 가장자리 색상 감지
+ * object-fit: contain 등으로 생기는 빈 영역을 이미지와 이어지는 색으로 채우는 용도
+ */
+
+import { createAbortScope } from './abort'
+import { extractColorsFromPixels } from './extractionCore'
+import type { ExtractedColor, PixelExtractionOptions } from './extractionCore'
+
+export type EdgeSide = 'top' | 'right' | 'bottom' | 'left'
+
+/** 각 변의 대표 색상 (가장자리 픽셀이 모두 제외되면 null) */
+export type EdgeColors = Record<EdgeSide, ExtractedColor | null>
+
+export interface EdgeColorOptions
+  extends Pick<PixelExtractionOptions, 'pixelFilter' | 'colorSpace' | 'signal' | 'timeoutMs'> {
+  /** 가장자리 띠 두께 (짧은 변 대비 0-1 비율, 최소 1px, 기본: 0.05) */
+  stripSize?: number
+}
+
+const EDGE_SIDES: EdgeSide[] = ['top', 'right', 'bottom', 'left']
+
+/**
+ * RGBA 픽셀 버퍼에서 네 변의 대표 색상 추출
+ * 각 변의 얇은 띠를 median cut으로 나눈 뒤 가장 많은 픽셀을 차지하는 색상 선택
+ * 흰색/검은색 여백도 그대로 이어져야 하므로 기본 필터는 'opaque'
+ */
+export function extractEdgeColorsFromPixels(
+  data: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+  options: EdgeColorOptions = {}
+): EdgeColors {
+  const { stripSize = 0.05, signal, timeoutMs, ...rest } = options
+  const strip = Math.max(1, Math.round(Math.min(width, height) * stripSize))
+
+  const regions = {
+    top: { x: 0, y: 0, width, height: strip },
+    right: { x: width - strip, y: 0, width: strip, height },
+    bottom: { x: 0, y: height - strip, width, height: strip },
+    left: { x: 0, y: 0, width: strip, height },
+  }
+
+  // 네 변 전체에 하나의 제한 시간 적용
+  const scope = createAbortScope(signal, timeoutMs)
+  const result = {} as EdgeColors
+
+  try {
+    for (const side of EDGE_SIDES) {
+      scope.check()
+      const colors = extractColorsFromPixels(data, width, height, {
+        pixelFilter: 'opaque',
+        ...rest,
+        region: regions[side],
+        algorithm: 'median-cut',
+        colorCount: 3,
+        quality: 1,
+        signal: scope.signal,
+        timeoutMs: scope.timeRemaining(),
+      })
+      result[side] = colors.reduce<ExtractedColor | null>(
+        (best, c) => (!best || c.population > best.population ? c : best),
+        null
+      )
+    }
+  } finally {
+    scope.dispose()
+  }
+
+  return result
+}
@@ -0,0 +1,367 @@
+/**
+ * DOM 없이 동작하는 색상 추출 코어
+ * 픽셀 버퍼만 받으므로 Node, SSR, 빌드 도구에서도 사용 가능
+ */
+
+import { toColorSpace } from './colorSpace'
+import type { ColorSpace } from './colorSpace'
+import { resolveRegion } from './region'
+import type { ColorRegion } from './region'
+import { createPixelFilter } from './pixelFilter'
+import type { PixelFilter } from './pixelFilter'
+import { quantizePixels } from './quantize'
+import type { QuantizationAlgorithm } from './quantize'
+import { DEFAULT_SEED, createRandom } from './random'
+import { clusterWithAutoColorCount, computeInertia } from './colorCount'
+import type { ColorCountMethod } from './colorCount'
+import { mergeSimilarColors } from './colorMerge'
+import type { ColorDifferenceMetric } from './colorMerge'
+import { createAbortScope } from './abort'
+import { clusterKMeans, toPointBuffer } from './kmeans'
+import { withColorNames } from './colorNames'
+import { computePixelWeights, resampleByWeight } from './weighting'
+import type { PixelWeighting } from './weighting'
+
+export interface RGB {
+  r: number
+  g: number
+  b: number
+}
+
+export interface ExtractedColor {
+  rgb: RGB
+  hex: string
+  population: number
+  percentage: number
+  /** 가장 가까운 CSS 색상 이름 (includeNames일 때) */
+  name?: string
+  /** 대략적인 색상 계열, 예: 'muted teal' (includeNames일 때) */
+  family?: string
+}
+
+export interface PixelExtractionOptions {
+  /** 추출할 색상 수, 'auto'면 이미지에 맞게 자동 선택 (기본: 5) */
+  colorCount?: number | 'auto'
+  /** colorCount가 'auto'일 때 최소 색상 수 (기본: 2) */
+  minColorCount?: number
+  /** colorCount가 'auto'일 때 최대 색상 수 (기본: 8) */
+  maxColorCount?: number
+  /** colorCount가 'auto'일 때 사용할 품질 지표 (기본: 'elbow') */
+  colorCountMethod?: ColorCountMethod
+  /** 실제 사용된 색상 수를 전달받는 콜백 */
+  onColorCountResolved?: (colorCount: number) => void
+  quality?: number
+  maxIterations?: number
+  sampleSize?: number
+  /** 클러스터링에 사용할 색 공간 (기본: 'rgb') */
+  colorSpace?: ColorSpace
+  /** 색상을 추출할 영역 (기본: 'full') */
+  region?: ColorRegion
+  /** 클러스터링에 포함할 픽셀 필터 (기본: 'default') */
+  pixelFilter?: PixelFilter
+  /** 픽셀 가중치 방식, 클러스터링과 population에 반영 (기본: 'uniform') */
+  weighting?: PixelWeighting
+  /** weighting이 'center'일 때 가중치가 절반이 되는 거리 (0: 중심, 1: 모서리, 기본: 0.5) */
+  centerFalloff?: number
+  /** 양자화 알고리즘 (기본: 'kmeans') */
+  algorithm?: QuantizationAlgorithm
+  /** K-means 초기화 시드 (기본: 고정값, 같은 입력이면 항상 같은 결과) */
+  seed?: number
+  /** 이 값보다 색차가 작은 클러스터를 병합 (기본: 0, 병합 안 함) */
+  mergeThreshold?: number
+  /** 병합에 사용할 색차 지표 (기본: 'deltaE2000') */
+  mergeMetric?: ColorDifferenceMetric
+  /** 병합 후 가장 큰 클러스터를 나눠 색상 수 유지 (기본: false) */
+  preserveColorCount?: boolean
+  /** 각 색상에 CSS 색상 이름과 색상 계열 추가 (기본: false) */
+  includeNames?: boolean
+  /** 추출을 취소하는 signal, abort되면 signal.reason으로 reject */
+  signal?: AbortSignal
+  /** 제한 시간 (ms), 초과하면 TimeoutError DOMException 발생 */
+  timeoutMs?: number
+}
+
+/**
+ * 픽셀 버퍼 단계의 진단 정보
+ */
+export interface PixelExtractionDiagnostics {
+  /** 샘플링한 픽셀 수 (필터 적용 전) */
+  sampledPixels: number
+  /** 픽셀 필터로 제외된 픽셀 수 */
+  filteredPixels: number
+  /** 실제 사용된 색상 수 (k) */
+  colorCount: number
+  /** K-means 반복 횟수 (다른 알고리즘은 0) */
+  iterations: number
+  /** K-means 수렴 여부 (다른 알고리즘은 항상 true) */
+  converged: boolean
+  /** 클러스터링 색 공간에서 각 픽셀과 가장 가까운 색상 사이 거리 제곱의 합 */
+  inertia: number
+  /** 단계별 소요 시간 (ms) */
+  timings: {
+    sample: number
+    cluster: number
+  }
+}
+
+/** 기본값이 없는 옵션 (콜백 등) */
+export type OptionalExtractionKeys = 'onColorCountResolved' | 'signal' | 'timeoutMs'
+
+export type ResolvedPixelExtractionOptions = Required<
+  Omit<PixelExtractionOptions, OptionalExtractionKeys>
+> &
+  Pick<PixelExtractionOptions, OptionalExtractionKeys>
+
+export const DEFAULT_PIXEL_EXTRACTION_OPTIONS: Required<
+  Omit<PixelExtractionOptions, OptionalExtractionKeys>
+> = {
+  colorCount: 5,
+  minColorCount: 2,
+  maxColorCount: 8,
+  colorCountMethod: 'elbow',
+  quality: 10,
+  maxIterations: 100,
+  sampleSize: 10000,
+  colorSpace: 'rgb',
+  region: 'full',
+  pixelFilter: 'default',
+  weighting: 'uniform',
+  centerFalloff: 0.5,
+  algorithm: 'kmeans',
+  seed: DEFAULT_SEED,
+  mergeThreshold: 0,
+  mergeMetric: 'deltaE2000',
+  preserveColorCount: false,
+  includeNames: false,
+}
+
+/**
+ * RGB를 HEX로 변환
+ */
+function rgbToHex(rgb: RGB): string {
+  const toHex = (n: number) => {
+    const hex = Math.round(Math.max(0, Math.min(255, n))).toString(16)
+    return hex.length === 1 ? '0' + hex : hex
+  }
+  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`
+}
+
+/**
+ * 픽셀 버퍼에서 샘플링할 픽셀 추출
+ */
+function getPixelsFromBuffer(
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  quality: number,
+  sampleSize: number,
+  region: ColorRegion,
+  pixelFilter: PixelFilter,
+  weighting: PixelWeighting,
+  centerFalloff: number,
+  seed: number
+): { pixels: number[][]; sampledPixels: number } {
+  const pixels: number[][] = []
+  const positions: number[] = []
+  const accept = createPixelFilter(pixelFilter)
+  const rect = resolveRegion(region, width, height)
+  const pixelCount = rect.width * rect.height
+  const step = Math.max(1, Math.floor(pixelCount / sampleSize) * quality)
+  let sampledPixels = 0
+
+  if (data.length === 0) return { pixels, sampledPixels }
+
+  for (let n = 0; n < pixelCount; n += step) {
+    sampledPixels++
+    const x = rect.x + (n % rect.width)
+    const y = rect.y + Math.floor(n / rect.width)
+    const i = (y * width + x) * 4
+    const r = data[i]
+    const g = data[i + 1]
+    const b = data[i + 2]
+    const a = data[i + 3]
+
+    if (accept(r, g, b, a)) {
+      pixels.push([r, g, b])
+      positions.push(y * width + x)
+    }
+  }
+
+  if (weighting === 'uniform') return { pixels, sampledPixels }
+
+  const weights = computePixelWeights(data, width, rect, positions, weighting, centerFalloff)
+  return { pixels: resampleByWeight(pixels, weights, createRandom(seed)), sampledPixels }
+}
+
+/**
+ * 채도 계산 (HSL 기준)
+ */
+function getSaturation(rgb: RGB): number {
+  const r = rgb.r / 255
+  const g = rgb.g / 255
+  const b = rgb.b / 255
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+
+  if (max === min) return 0
+
+  const d = max - min
+  return l > 0.5 ? d / (2 - max - min) : d / (max + min)
+}
+
+/**
+ * RGBA 픽셀 버퍼에서 색상 추출 (DOM 불필요)
+ * data는 width * height * 4 길이의 RGBA 순서 버퍼
+ */
+export function extractColorsFromPixels(
+  data: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+  options: PixelExtractionOptions = {}
+): ExtractedColor[] {
+  return extractColorsFromPixelsDetailed(data, width, height, options).colors
+}
+
+/**
+ * RGBA 픽셀 버퍼에서 색상과 진단 정보 추출
+ */
+export function extractColorsFromPixelsDetailed(
+  data: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+  options: PixelExtractionOptions = {}
+): { colors: ExtractedColor[]; diagnostics: PixelExtractionDiagnostics } {
+  if (data.length < width * height * 4) {
+    throw new RangeError(`Pixel data must have at least ${width * height * 4} bytes`)
+  }
+
+  const opts: ResolvedPixelExtractionOptions = { ...DEFAULT_PIXEL_EXTRACTION_OPTIONS, ...options }
+  const scope = createAbortScope(opts.signal, opts.timeoutMs)
+
+  try {
+    scope.check()
+    const result = extractFromBuffer(data, width, height, opts, scope.check)
+    return opts.includeNames ? { ...result, colors: withColorNames(result.colors) } : result
+  } finally {
+    scope.dispose()
+  }
+}
+
+/**
+ * 샘플링 → 클러스터링 → 병합 → 정렬 파이프라인
+ * check는 각 클러스터링 단계와 K-means 반복 사이에 호출
+ */
+function extractFromBuffer(
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  opts: ResolvedPixelExtractionOptions,
+  check: () => void
+): { colors: ExtractedColor[]; diagnostics: PixelExtractionDiagnostics } {
+  const sampleStart = performance.now()
+  const { pixels, sampledPixels } = getPixelsFromBuffer(
+    data,
+    width,
+    height,
+    opts.quality,
+    opts.sampleSize,
+    opts.region,
+    opts.pixelFilter,
+    opts.weighting,
+    opts.centerFalloff,
+    opts.seed
+  )
+
+  const clusterStart = performance.now()
+  const diagnostics: PixelExtractionDiagnostics = {
+    sampledPixels,
+    filteredPixels: sampledPixels - pixels.length,
+    colorCount: 0,
+    iterations: 0,
+    converged: true,
+    inertia: 0,
+    timings: { sample: clusterStart - sampleStart, cluster: 0 },
+  }
+
+  if (pixels.length === 0) {
+    return { colors: [], diagnostics }
+  }
+
+  // K-means 좌표 버퍼는 colorCount가 'auto'일 때 모든 k에서 재사용
+  let pointBuffer: Float32Array | null = null
+  const cluster = (k: number) => {
+    check()
+    if (opts.algorithm === 'kmeans') {
+      pointBuffer ??= toPointBuffer(pixels, opts.colorSpace)
+      return clusterKMeans(pointBuffer, k, opts.maxIterations, opts.colorSpace, opts.seed, check)
+    }
+    const quantized = quantizePixels(pixels, k, opts.algorithm, opts.colorSpace)
+    return { ...quantized, iterations: 0, converged: true }
+  }
+
+  let result: ReturnType<typeof cluster> & { colorCount: number }
+
+  if (opts.colorCount === 'auto') {
+    result = clusterWithAutoColorCount(
+      pixels,
+      opts.minColorCount,
+      opts.maxColorCount,
+      opts.colorCountMethod,
+      opts.colorSpace,
+      cluster
+    )
+  } else {
+    // 픽셀이 너무 적으면 colorCount 조정
+    const actualColorCount = Math.min(opts.colorCount, pixels.length)
+    result = { colorCount: actualColorCount, ...cluster(actualColorCount) }
+  }
+
+  check()
+  opts.onColorCountResolved?.(result.colorCount)
+
+  // 지각적으로 비슷한 색상 병합
+  const { centroids, counts } =
+    opts.mergeThreshold > 0
+      ? mergeSimilarColors(
+          pixels,
+          result.centroids,
+          result.counts,
+          opts.mergeThreshold,
+          opts.mergeMetric,
+          opts.preserveColorCount ? result.colorCount : 0
+        )
+      : result
+
+  const points =
+    opts.colorSpace === 'rgb'
+      ? pixels
+      : pixels.map(p => toColorSpace(p[0], p[1], p[2], opts.colorSpace))
+  diagnostics.colorCount = result.colorCount
+  diagnostics.iterations = result.iterations
+  diagnostics.converged = result.converged
+  diagnostics.inertia = computeInertia(
+    points,
+    centroids.map(c => toColorSpace(c.r, c.g, c.b, opts.colorSpace))
+  )
+  diagnostics.timings.cluster = performance.now() - clusterStart
+
+  const totalPixels = counts.reduce((a, b) => a + b, 0)
+
+  const colors = centroids
+    .map((centroid, i) => ({
+      rgb: centroid,
+      hex: rgbToHex(centroid),
+      population: counts[i],
+      percentage: totalPixels > 0 ? (counts[i] / totalPixels) * 100 : 0,
+    }))
+    .filter(c => c.population > 0)
+    .sort((a, b) => {
+      // 채도와 빈도를 조합한 점수로 정렬
+      const scoreA = a.percentage * (0.7 + 0.3 * getSaturation(a.rgb))
+      const scoreB = b.percentage * (0.7 + 0.3 * getSaturation(b.rgb))
+      return scoreB - scoreA
+    })
+
+  return { colors, diagnostics }
+}
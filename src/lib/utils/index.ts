@@ -1,2 +1,10 @@
 export * from './colorExtractor'
+export * from './extractionCore'
 export * from './colorHarmony'
+export * from './colorSpace'
+export * from './region'
+export * from './pixelFilter'
+export * from './weighting'
+export * from './quantize'
+export * from './colorCount'
+export * from './colorMerge'
@@ -0,0 +1,203 @@
+/**
+ * 타입 배열 기반 K-means 클러스터링
+ * 픽셀마다 배열을 만들지 않고 연속된 버퍼에서 거리 제곱으로 비교하여 GC 부담을 줄임
+ * 메인 스레드와 인라인 Worker가 같은 구현을 사용하므로 같은 입력이면 결과가 같음
+ *
+ * 인라인 Worker 코드에 함수 소스가 그대로 삽입되므로
+ * 각 함수는 이 파일과 colorSpace, random의 함수 외에는 외부 값을 참조하지 않아야 함
+ */
+
+import { toColorSpace, fromColorSpace } from './colorSpace'
+import type { ColorSpace } from './colorSpace'
+import { createRandom } from './random'
+import type { RGB } from './extractionCore'
+
+export interface KMeansResult {
+  /** k * 3 길이의 중심 좌표 */
+  centroids: Float64Array
+  /** 각 점이 속한 클러스터 */
+  assignments: Uint16Array
+  /** 클러스터별 점 수 */
+  counts: Uint32Array
+  iterations: number
+  converged: boolean
+}
+
+/**
+ * 픽셀을 클러스터링 색 공간의 n * 3 길이 좌표 버퍼로 변환
+ */
+export function toPointBuffer(pixels: number[][], colorSpace: ColorSpace): Float32Array {
+  const points = new Float32Array(pixels.length * 3)
+
+  for (let i = 0; i < pixels.length; i++) {
+    const p = pixels[i]
+    const c = colorSpace === 'rgb' ? p : toColorSpace(p[0], p[1], p[2], colorSpace)
+    points[i * 3] = c[0]
+    points[i * 3 + 1] = c[1]
+    points[i * 3 + 2] = c[2]
+  }
+
+  return points
+}
+
+/**
+ * K-means++ 초기화 후 Lloyd 반복
+ * 모든 중심의 이동 거리가 좌표 범위의 tolerance 배 이하이면 수렴으로 판단하고 종료
+ * (색 공간마다 좌표 범위가 다르므로 상대값 사용)
+ * check는 반복마다 호출 (취소, 시간 초과 확인)
+ */
+export function kMeans(
+  points: Float32Array,
+  k: number,
+  maxIterations: number,
+  seed: number,
+  check: () => void,
+  tolerance = 1e-3
+): KMeansResult {
+  const n = Math.floor(points.length / 3)
+  // k가 0 이하이면 다른 양자화 알고리즘과 같이 빈 결과
+  const actualK = Math.max(0, Math.min(k, n))
+  const centroids = new Float64Array(actualK * 3)
+  const assignments = new Uint16Array(n)
+  const counts = new Uint32Array(actualK)
+
+  if (actualK === 0) {
+    return { centroids, assignments, counts, iterations: 0, converged: true }
+  }
+
+  // K-means++: 가장 가까운 중심까지의 거리 제곱에 비례하는 확률로 다음 중심 선택
+  const random = createRandom(seed)
+  const minDistances = new Float64Array(n).fill(Infinity)
+  let chosen = Math.floor(random() * n)
+
+  for (let c = 0; c < actualK; c++) {
+    centroids[c * 3] = points[chosen * 3]
+    centroids[c * 3 + 1] = points[chosen * 3 + 1]
+    centroids[c * 3 + 2] = points[chosen * 3 + 2]
+    if (c === actualK - 1) break
+
+    let total = 0
+    for (let i = 0; i < n; i++) {
+      const d0 = points[i * 3] - centroids[c * 3]
+      const d1 = points[i * 3 + 1] - centroids[c * 3 + 1]
+      const d2 = points[i * 3 + 2] - centroids[c * 3 + 2]
+      const dist = d0 * d0 + d1 * d1 + d2 * d2
+      if (dist < minDistances[i]) minDistances[i] = dist
+      total += minDistances[i]
+    }
+
+    // 모든 점이 기존 중심과 겹치면 마지막 점 사용
+    chosen = n - 1
+    const target = random() * total
+    let sum = 0
+    for (let i = 0; i < n; i++) {
+      sum += minDistances[i]
+      if (sum > target) {
+        chosen = i
+        break
+      }
+    }
+  }
+
+  // 세 축 중 가장 넓은 좌표 범위
+  let range = 0
+  for (let axis = 0; axis < 3; axis++) {
+    let min = Infinity
+    let max = -Infinity
+    for (let i = axis; i < points.length; i += 3) {
+      if (points[i] < min) min = points[i]
+      if (points[i] > max) max = points[i]
+    }
+    range = Math.max(range, max - min)
+  }
+
+  const sums = new Float64Array(actualK * 3)
+  const toleranceSquared = (tolerance * range) ** 2
+  let iterations = 0
+  let converged = false
+
+  while (iterations < maxIterations) {
+    check()
+    iterations++
+
+    // 가장 가까운 중심에 배정하면서 클러스터별 합계 누적
+    sums.fill(0)
+    counts.fill(0)
+    for (let i = 0; i < n; i++) {
+      const p0 = points[i * 3]
+      const p1 = points[i * 3 + 1]
+      const p2 = points[i * 3 + 2]
+      let nearest = 0
+      let minDist = Infinity
+      for (let c = 0; c < actualK; c++) {
+        const d0 = p0 - centroids[c * 3]
+        const d1 = p1 - centroids[c * 3 + 1]
+        const d2 = p2 - centroids[c * 3 + 2]
+        const dist = d0 * d0 + d1 * d1 + d2 * d2
+        if (dist < minDist) {
+          minDist = dist
+          nearest = c
+        }
+      }
+      assignments[i] = nearest
+      counts[nearest]++
+      sums[nearest * 3] += p0
+      sums[nearest * 3 + 1] += p1
+      sums[nearest * 3 + 2] += p2
+    }
+
+    // 중심 갱신 (빈 클러스터는 이전 중심 유지)
+    let maxShift = 0
+    for (let c = 0; c < actualK; c++) {
+      if (counts[c] === 0) continue
+      const c0 = sums[c * 3] / counts[c]
+      const c1 = sums[c * 3 + 1] / counts[c]
+      const c2 = sums[c * 3 + 2] / counts[c]
+      const d0 = c0 - centroids[c * 3]
+      const d1 = c1 - centroids[c * 3 + 1]
+      const d2 = c2 - centroids[c * 3 + 2]
+      const shift = d0 * d0 + d1 * d1 + d2 * d2
+      if (shift > maxShift) maxShift = shift
+      centroids[c * 3] = c0
+      centroids[c * 3 + 1] = c1
+      centroids[c * 3 + 2] = c2
+    }
+
+    if (maxShift <= toleranceSquared) {
+      converged = true
+      break
+    }
+  }
+
+  return { centroids, assignments, counts, iterations, converged }
+}
+
+/**
+ * 좌표 버퍼를 K-means로 클러스터링하고 중심을 RGB로 변환
+ */
+export function clusterKMeans(
+  points: Float32Array,
+  k: number,
+  maxIterations: number,
+  colorSpace: ColorSpace,
+  seed: number,
+  check: () => void
+): { centroids: RGB[]; counts: number[]; iterations: number; converged: boolean } {
+  const result = kMeans(points, k, maxIterations, seed, check)
+  const centroids: RGB[] = []
+  for (let c = 0; c < result.counts.length; c++) {
+    centroids.push(
+      fromColorSpace(
+        [result.centroids[c * 3], result.centroids[c * 3 + 1], result.centroids[c * 3 + 2]],
+        colorSpace
+      )
+    )
+  }
+
+  return {
+    centroids,
+    counts: Array.from(result.counts),
+    iterations: result.iterations,
+    converged: result.converged,
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * 픽셀 필터 유틸리티
+ * 클러스터링에 포함할 픽셀을 결정
+ *
+ * passesPixelFilter는 인라인 Worker 코드에 그대로 삽입되므로 자기완결적이어야 함
+ */
+
+export interface PixelFilterConfig {
+  /** 이 값 미만의 알파를 가진 픽셀 제외 (0-255, 기본: 125) */
+  alphaThreshold?: number
+  /** 거의 흰색(모든 채널 > 250) 제외 (기본: true) */
+  excludeWhite?: boolean
+  /** 거의 검은색(모든 채널 < 5) 제외 (기본: true) */
+  excludeBlack?: boolean
+  /** 최소 HSL 밝기 (0-1, 기본: 0) */
+  minLightness?: number
+  /** 최대 HSL 밝기 (0-1, 기본: 1) */
+  maxLightness?: number
+  /** 최소 HSL 채도 (0-1, 기본: 0) */
+  minSaturation?: number
+}
+
+export type PixelFilterPredicate = (r: number, g: number, b: number, a: number) => boolean
+
+export type PixelFilterPreset = 'default' | 'opaque' | 'none'
+
+export type PixelFilter = PixelFilterPreset | PixelFilterConfig | PixelFilterPredicate
+
+/**
+ * 기본 제공 필터 프리셋
+ * - default: 투명 픽셀과 거의 흰색/검은색 제외 (배경색 가능성 높음)
+ * - opaque: 투명 픽셀만 제외
+ * - none: 모든 픽셀 포함
+ */
+export const PIXEL_FILTER_PRESETS: Record<PixelFilterPreset, Required<PixelFilterConfig>> = {
+  default: {
+    alphaThreshold: 125,
+    excludeWhite: true,
+    excludeBlack: true,
+    minLightness: 0,
+    maxLightness: 1,
+    minSaturation: 0,
+  },
+  opaque: {
+    alphaThreshold: 125,
+    excludeWhite: false,
+    excludeBlack: false,
+    minLightness: 0,
+    maxLightness: 1,
+    minSaturation: 0,
+  },
+  none: {
+    alphaThreshold: 0,
+    excludeWhite: false,
+    excludeBlack: false,
+    minLightness: 0,
+    maxLightness: 1,
+    minSaturation: 0,
+  },
+}
+
+/**
+ * 프리셋 이름 또는 부분 설정을 완전한 설정으로 변환
+ * 설정 객체에 없는 항목은 default 프리셋 값 사용
+ */
+export function resolvePixelFilterConfig(
+  filter: PixelFilterPreset | PixelFilterConfig | undefined
+): Required<PixelFilterConfig> {
+  if (!filter) return PIXEL_FILTER_PRESETS.default
+  if (typeof filter === 'string') return PIXEL_FILTER_PRESETS[filter]
+  return { ...PIXEL_FILTER_PRESETS.default, ...filter }
+}
+
+/**
+ * 픽셀이 필터 설정을 통과하는지 검사
+ */
+export function passesPixelFilter(
+  r: number,
+  g: number,
+  b: number,
+  a: number,
+  config: Required<PixelFilterConfig>
+): boolean {
+  if (a < config.alphaThreshold) return false
+  if (config.excludeWhite && r > 250 && g > 250 && b > 250) return false
+  if (config.excludeBlack && r < 5 && g < 5 && b < 5) return false
+
+  if (config.minLightness > 0 || config.maxLightness < 1 || config.minSaturation > 0) {
+    const max = Math.max(r, g, b) / 255
+    const min = Math.min(r, g, b) / 255
+    const l = (max + min) / 2
+
+    if (l < config.minLightness || l > config.maxLightness) return false
+
+    if (config.minSaturation > 0) {
+      const d = max - min
+      const s = d === 0 ? 0 : l > 0.5 ? d / (2 - max - min) : d / (max + min)
+      if (s < config.minSaturation) return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * 필터 옵션을 픽셀 판별 함수로 변환
+ */
+export function createPixelFilter(filter: PixelFilter | undefined): PixelFilterPredicate {
+  if (typeof filter === 'function') return filter
+
+  const config = resolvePixelFilterConfig(filter)
+  return (r, g, b, a) => passesPixelFilter(r, g, b, a, config)
+}
@@ -0,0 +1,278 @@
+/**
+ * 결정적(deterministic) 색상 양자화 알고리즘
+ * K-means보다 빠르고 같은 입력에 항상 같은 결과를 반환
+ *
+ * 인라인 Worker 코드에 함수 소스가 그대로 삽입되므로
+ * 각 함수는 이 파일과 colorSpace의 함수 외에는 외부 값을 참조하지 않아야 함
+ */
+
+import { toColorSpace, fromColorSpace } from './colorSpace'
+import type { ColorSpace } from './colorSpace'
+import type { RGB } from './extractionCore'
+
+export type QuantizationAlgorithm = 'kmeans' | 'median-cut' | 'octree'
+
+/**
+ * Median cut 양자화
+ * 값의 범위가 가장 넓은 박스를 가장 넓은 축에서 반복 분할
+ * 분할 지점은 중앙값 대신 두 박스의 분산 합이 가장 작아지는 위치를 사용해
+ * 하나의 색상 덩어리가 둘로 쪼개지는 것을 방지
+ */
+export function medianCut(
+  points: number[][],
+  k: number
+): { centroids: number[][]; counts: number[] } {
+  if (points.length === 0 || k <= 0) {
+    return { centroids: [], counts: [] }
+  }
+
+  const getRange = (box: number[][]) => {
+    const min = [Infinity, Infinity, Infinity]
+    const max = [-Infinity, -Infinity, -Infinity]
+    for (const p of box) {
+      for (let c = 0; c < 3; c++) {
+        if (p[c] < min[c]) min[c] = p[c]
+        if (p[c] > max[c]) max[c] = p[c]
+      }
+    }
+    const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]]
+    const axis = ranges[0] >= ranges[1] && ranges[0] >= ranges[2] ? 0 : ranges[1] >= ranges[2] ? 1 : 2
+    return { axis, range: ranges[axis] }
+  }
+
+  const boxes: number[][][] = [points]
+
+  while (boxes.length < k) {
+    // 픽셀 수와 범위를 함께 고려해 분할할 박스 선택
+    let target = -1
+    let targetAxis = 0
+    let bestScore = 0
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].length < 2) continue
+      const { axis, range } = getRange(boxes[i])
+      const score = range * boxes[i].length
+      if (score > bestScore) {
+        bestScore = score
+        target = i
+        targetAxis = axis
+      }
+    }
+
+    // 더 이상 나눌 수 있는 박스가 없음 (모든 박스가 단일 색상)
+    if (target === -1) break
+
+    const box = boxes[target].slice().sort((a, b) => a[targetAxis] - b[targetAxis])
+
+    // 누적합으로 각 분할 위치의 분산 합 계산
+    const n = box.length
+    let totalSum = 0
+    let totalSq = 0
+    for (const p of box) {
+      totalSum += p[targetAxis]
+      totalSq += p[targetAxis] * p[targetAxis]
+    }
+    let leftSum = 0
+    let leftSq = 0
+    let split = Math.ceil(n / 2)
+    let bestCost = Infinity
+    for (let i = 1; i < n; i++) {
+      const v = box[i - 1][targetAxis]
+      leftSum += v
+      leftSq += v * v
+      // 같은 값 사이에서는 분할하지 않음
+      if (v === box[i][targetAxis]) continue
+      const rightSum = totalSum - leftSum
+      const rightSq = totalSq - leftSq
+      const cost = leftSq - (leftSum * leftSum) / i + rightSq - (rightSum * rightSum) / (n - i)
+      if (cost < bestCost) {
+        bestCost = cost
+        split = i
+      }
+    }
+
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split))
+  }
+
+  const centroids = boxes.map(box => {
+    const sum = [0, 0, 0]
+    for (const p of box) {
+      sum[0] += p[0]
+      sum[1] += p[1]
+      sum[2] += p[2]
+    }
+    return [sum[0] / box.length, sum[1] / box.length, sum[2] / box.length]
+  })
+
+  return { centroids, counts: boxes.map(box => box.length) }
+}
+
+/**
+ * Octree 양자화 (RGB 0-255 전용)
+ * 모든 픽셀을 깊이 8의 트리에 넣고, 가장 깊은 레벨의 노드부터
+ * 픽셀 수가 적은 순으로 병합하여 리프 수를 줄임
+ * 노드 병합으로 k보다 적어지는 경우 남은 리프를 가장 가까운 리프와 병합
+ */
+export function octreeQuantize(
+  pixels: number[][],
+  k: number
+): { centroids: number[][]; counts: number[] } {
+  if (pixels.length === 0 || k <= 0) {
+    return { centroids: [], counts: [] }
+  }
+
+  interface OctreeNode {
+    r: number
+    g: number
+    b: number
+    count: number
+    children: (OctreeNode | null)[] | null
+  }
+
+  const maxDepth = 8
+  const createNode = (): OctreeNode => ({ r: 0, g: 0, b: 0, count: 0, children: null })
+  const root = createNode()
+  // 레벨별 자식을 가진(병합 가능한) 노드
+  const levels: OctreeNode[][] = Array.from({ length: maxDepth }, () => [])
+  let leafCount = 0
+
+  for (const p of pixels) {
+    let node = root
+    for (let level = 0; level < maxDepth; level++) {
+      if (!node.children) {
+        node.children = [null, null, null, null, null, null, null, null]
+        levels[level].push(node)
+      }
+      const shift = 7 - level
+      const index =
+        (((p[0] >> shift) & 1) << 2) | (((p[1] >> shift) & 1) << 1) | ((p[2] >> shift) & 1)
+      let child = node.children[index]
+      if (!child) {
+        child = createNode()
+        node.children[index] = child
+        if (level === maxDepth - 1) leafCount++
+      }
+      node = child
+    }
+    node.r += p[0]
+    node.g += p[1]
+    node.b += p[2]
+    node.count++
+  }
+
+  // 가장 깊은 레벨부터 자식 노드를 부모로 병합
+  let stopped = false
+  for (let level = maxDepth - 1; level >= 0 && leafCount > k && !stopped; level--) {
+    const reducible = levels[level]
+    for (const node of reducible) {
+      let sum = 0
+      for (const child of node.children!) {
+        if (child) sum += child.count
+      }
+      node.count = sum
+    }
+    // 픽셀 수가 적은 노드부터 병합 (동률이면 삽입 순서 유지)
+    const order = reducible
+      .map((node, i) => ({ node, i }))
+      .sort((a, b) => a.node.count - b.node.count || a.i - b.i)
+
+    for (const { node } of order) {
+      if (leafCount <= k) break
+      let r = 0
+      let g = 0
+      let b = 0
+      let childCount = 0
+      for (const child of node.children!) {
+        if (!child) continue
+        r += child.r
+        g += child.g
+        b += child.b
+        childCount++
+      }
+      // 병합하면 k보다 적어지는 경우 트리 병합 중단
+      if (leafCount - (childCount - 1) < k) {
+        stopped = true
+        break
+      }
+      node.r = r
+      node.g = g
+      node.b = b
+      node.children = null
+      leafCount -= childCount - 1
+    }
+  }
+
+  // 리프 수집
+  const leaves: OctreeNode[] = []
+  const stack: OctreeNode[] = [root]
+  while (stack.length > 0) {
+    const node = stack.pop()!
+    if (!node.children) {
+      if (node.count > 0) leaves.push(node)
+      continue
+    }
+    for (let i = 7; i >= 0; i--) {
+      const child = node.children[i]
+      if (child) stack.push(child)
+    }
+  }
+
+  // 남은 초과분은 픽셀 수가 가장 적은 리프를 가장 가까운 리프에 병합
+  while (leaves.length > k) {
+    let smallest = 0
+    for (let i = 1; i < leaves.length; i++) {
+      if (leaves[i].count < leaves[smallest].count) smallest = i
+    }
+    const leaf = leaves[smallest]
+    let nearest = -1
+    let minDist = Infinity
+    for (let i = 0; i < leaves.length; i++) {
+      if (i === smallest) continue
+      const other = leaves[i]
+      const dr = leaf.r / leaf.count - other.r / other.count
+      const dg = leaf.g / leaf.count - other.g / other.count
+      const db = leaf.b / leaf.count - other.b / other.count
+      const dist = dr * dr + dg * dg + db * db
+      if (dist < minDist) {
+        minDist = dist
+        nearest = i
+      }
+    }
+    leaves[nearest].r += leaf.r
+    leaves[nearest].g += leaf.g
+    leaves[nearest].b += leaf.b
+    leaves[nearest].count += leaf.count
+    leaves.splice(smallest, 1)
+  }
+
+  return {
+    centroids: leaves.map(node => [node.r / node.count, node.g / node.count, node.b / node.count]),
+    counts: leaves.map(node => node.count),
+  }
+}
+
+/**
+ * K-means 외 알고리즘으로 RGB 픽셀 양자화
+ * median cut은 지정한 색 공간에서, octree는 항상 RGB에서 동작
+ */
+export function quantizePixels(
+  pixels: number[][],
+  k: number,
+  algorithm: QuantizationAlgorithm,
+  colorSpace: ColorSpace
+): { centroids: RGB[]; counts: number[] } {
+  if (algorithm === 'octree') {
+    const result = octreeQuantize(pixels, k)
+    return {
+      centroids: result.centroids.map(c => fromColorSpace(c, 'rgb')),
+      counts: result.counts,
+    }
+  }
+
+  const points =
+    colorSpace === 'rgb' ? pixels : pixels.map(p => toColorSpace(p[0], p[1], p[2], colorSpace))
+  const result = medianCut(points, k)
+  return {
+    centroids: result.centroids.map(c => fromColorSpace(c, colorSpace)),
+    counts: result.counts,
+  }
+}
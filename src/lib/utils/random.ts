@@ -0,0 +1,24 @@
+/**
+ * 시드 기반 난수 생성기
+ * 같은 시드로 항상 같은 팔레트를 얻기 위해 Math.random 대신 사용
+ *
+ * createRandom은 인라인 Worker 코드에 그대로 삽입되므로 자기완결적이어야 함
+ */
+
+/** 기본 시드 (seed 옵션을 지정하지 않으면 항상 이 값으로 결정적 실행) */
+export const DEFAULT_SEED = 42
+
+/**
+ * mulberry32 알고리즘 기반 [0, 1) 난수 생성 함수 생성
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
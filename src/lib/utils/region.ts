@@ -0,0 +1,88 @@
+/**
+ * 색상 추출 영역(Region of Interest) 유틸리티
+ *
+ * resolveRegion은 인라인 Worker 코드에 그대로 삽입되므로 자기완결적이어야 함
+ */
+
+export type ColorRegionPreset = 'full' | 'top' | 'bottom' | 'left' | 'right' | 'center'
+
+export interface ColorRegionRect {
+  x: number
+  y: number
+  width: number
+  height: number
+  /** 좌표 단위: 픽셀 또는 0-1 비율 (기본: 'px') */
+  unit?: 'px' | 'fraction'
+}
+
+export type ColorRegion = ColorRegionPreset | ColorRegionRect
+
+export interface PixelRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * 영역 옵션을 이미지 크기에 맞는 정수 픽셀 사각형으로 변환
+ * 프리셋의 가장자리 영역은 이미지의 1/4, center는 가운데 1/2 영역
+ */
+export function resolveRegion(
+  region: ColorRegion | undefined,
+  width: number,
+  height: number
+): PixelRect {
+  let rect: { x: number; y: number; width: number; height: number }
+
+  if (!region || typeof region === 'string') {
+    switch (region) {
+      case 'top':
+        rect = { x: 0, y: 0, width: 1, height: 0.25 }
+        break
+      case 'bottom':
+        rect = { x: 0, y: 0.75, width: 1, height: 0.25 }
+        break
+      case 'left':
+        rect = { x: 0, y: 0, width: 0.25, height: 1 }
+        break
+      case 'right':
+        rect = { x: 0.75, y: 0, width: 0.25, height: 1 }
+        break
+      case 'center':
+        rect = { x: 0.25, y: 0.25, width: 0.5, height: 0.5 }
+        break
+      case 'full':
+      default:
+        rect = { x: 0, y: 0, width: 1, height: 1 }
+    }
+    rect = {
+      x: rect.x * width,
+      y: rect.y * height,
+      width: rect.width * width,
+      height: rect.height * height,
+    }
+  } else if (region.unit === 'fraction') {
+    rect = {
+      x: region.x * width,
+      y: region.y * height,
+      width: region.width * width,
+      height: region.height * height,
+    }
+  } else {
+    rect = region
+  }
+
+  // 이미지 범위로 클램핑하고 최소 1픽셀 보장
+  const x = Math.min(Math.max(0, Math.floor(rect.x)), Math.max(0, width - 1))
+  const y = Math.min(Math.max(0, Math.floor(rect.y)), Math.max(0, height - 1))
+  const right = Math.min(width, Math.ceil(rect.x + rect.width))
+  const bottom = Math.min(height, Math.ceil(rect.y + rect.height))
+
+  return {
+    x,
+    y,
+    width: Math.max(1, right - x),
+    height: Math.max(1, bottom - y),
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * 팔레트의 의미적 역할(swatch) 분류
+ * 목표 밝기/채도에 가까운 색상을 역할별로 선택 (Android Palette 방식)
+ */
+
+import { getApcaTarget } from './apca'
+import type { ExtractedColor, RGB } from './colorExtractor'
+import {
+  findReadableTextColor,
+  hslToRgb,
+  measureContrast,
+  rgbToHex,
+  rgbToHsl,
+} from './colorHarmony'
+import type { ContrastAlgorithm } from './colorHarmony'
+
+export type SwatchRole =
+  | 'Vibrant'
+  | 'LightVibrant'
+  | 'DarkVibrant'
+  | 'Muted'
+  | 'LightMuted'
+  | 'DarkMuted'
+  | 'Dominant'
+
+export interface Swatch {
+  rgb: RGB
+  hex: string
+  /** 원본 색상의 픽셀 수 (합성한 경우 0) */
+  population: number
+  /** 해당 역할의 색상이 팔레트에 없어 가장 가까운 색상에서 만든 경우 true */
+  synthesized: boolean
+  /** 제목(큰 텍스트)용 색상, 대비율 3:1 (apca: Lc 60) 이상 */
+  titleTextColor: string
+  /** 본문용 색상, 대비율 4.5:1 (apca: Lc 75) 이상 */
+  bodyTextColor: string
+}
+
+/** 역할별 swatch (팔레트가 비어 있으면 null) */
+export type Swatches = Record<SwatchRole, Swatch | null>
+
+export interface SwatchOptions {
+  /** 텍스트 색상의 대비 판단 방식 (기본: 'wcag2') */
+  contrastAlgorithm?: ContrastAlgorithm
+}
+
+interface SwatchTarget {
+  lightness: [min: number, target: number, max: number]
+  saturation: [min: number, target: number, max: number]
+}
+
+const SWATCH_TARGETS: Record<Exclude<SwatchRole, 'Dominant'>, SwatchTarget> = {
+  Vibrant: { lightness: [0.3, 0.5, 0.7], saturation: [0.35, 1, 1] },
+  LightVibrant: { lightness: [0.55, 0.74, 1], saturation: [0.35, 1, 1] },
+  DarkVibrant: { lightness: [0, 0.26, 0.45], saturation: [0.35, 1, 1] },
+  Muted: { lightness: [0.3, 0.5, 0.7], saturation: [0, 0.3, 0.4] },
+  LightMuted: { lightness: [0.55, 0.74, 1], saturation: [0, 0.3, 0.4] },
+  DarkMuted: { lightness: [0, 0.26, 0.45], saturation: [0, 0.3, 0.4] },
+}
+
+/** 점수 가중치: 채도, 밝기, 빈도 */
+const SATURATION_WEIGHT = 0.24
+const LIGHTNESS_WEIGHT = 0.52
+const POPULATION_WEIGHT = 0.24
+
+/** 이 채도 미만이면 합성 시 무채색으로 유지 */
+const ACHROMATIC_SATURATION = 0.05
+
+/** 대비 판단 방식별 최소 대비 (APCA는 제목 24px, 본문 16px 기준) */
+const MIN_CONTRAST: Record<ContrastAlgorithm, { title: number; body: number }> = {
+  wcag2: { title: 3, body: 4.5 },
+  apca: { title: getApcaTarget(24), body: getApcaTarget(16) },
+}
+
+/**
+ * 목표값과의 거리와 빈도로 역할 적합도 점수 계산
+ */
+function scoreSwatch(color: ExtractedColor, target: SwatchTarget, maxPopulation: number): number {
+  const { s, l } = rgbToHsl(color.rgb)
+  return (
+    (1 - Math.abs(s - target.saturation[1])) * SATURATION_WEIGHT +
+    (1 - Math.abs(l - target.lightness[1])) * LIGHTNESS_WEIGHT +
+    (maxPopulation > 0 ? color.population / maxPopulation : 0) * POPULATION_WEIGHT
+  )
+}
+
+/**
+ * 최소 대비율을 유지하는 범위에서 배경색 쪽으로 섞은 텍스트 색상
+ * 흰색/검정보다 배경과 어울리면서도 읽을 수 있는 색상을 만듦
+ */
+function getSwatchTextColor(
+  background: RGB,
+  minContrast: number,
+  contrastAlgorithm: ContrastAlgorithm
+): string {
+  const base = findReadableTextColor(background, minContrast, contrastAlgorithm)
+
+  for (let amount = 0.5; amount > 0; amount -= 0.05) {
+    const mixed: RGB = {
+      r: Math.round(base.r + (background.r - base.r) * amount),
+      g: Math.round(base.g + (background.g - base.g) * amount),
+      b: Math.round(base.b + (background.b - base.b) * amount),
+    }
+    if (measureContrast(background, mixed, contrastAlgorithm) >= minContrast) {
+      return rgbToHex(mixed)
+    }
+  }
+
+  return rgbToHex(base)
+}
+
+function createSwatch(
+  rgb: RGB,
+  population: number,
+  synthesized: boolean,
+  contrastAlgorithm: ContrastAlgorithm
+): Swatch {
+  const minContrast = MIN_CONTRAST[contrastAlgorithm]
+  return {
+    rgb,
+    hex: rgbToHex(rgb),
+    population,
+    synthesized,
+    titleTextColor: getSwatchTextColor(rgb, minContrast.title, contrastAlgorithm),
+    bodyTextColor: getSwatchTextColor(rgb, minContrast.body, contrastAlgorithm),
+  }
+}
+
+/**
+ * 추출한 색상을 Vibrant/Muted 계열 역할로 분류
+ * 밝기/채도 범위에 맞는 색상 중 점수가 가장 높은 색상을 선택하고 한 색상은 한 역할에만 사용
+ * 맞는 색상이 없는 역할은 가장 가까운 색상의 색상각을 유지한 채 밝기/채도를 목표에 맞춰 합성
+ */
+export function getSwatches(colors: ExtractedColor[], options: SwatchOptions = {}): Swatches {
+  const { contrastAlgorithm = 'wcag2' } = options
+  const swatches: Swatches = {
+    Vibrant: null,
+    LightVibrant: null,
+    DarkVibrant: null,
+    Muted: null,
+    LightMuted: null,
+    DarkMuted: null,
+    Dominant: null,
+  }
+  if (colors.length === 0) return swatches
+
+  const maxPopulation = Math.max(...colors.map(c => c.population))
+  const dominant = colors.reduce((best, c) => (c.population > best.population ? c : best))
+  swatches.Dominant = createSwatch(dominant.rgb, dominant.population, false, contrastAlgorithm)
+
+  const roles = Object.keys(SWATCH_TARGETS) as (keyof typeof SWATCH_TARGETS)[]
+  const used = new Set<ExtractedColor>()
+
+  for (const role of roles) {
+    const target = SWATCH_TARGETS[role]
+    let best: ExtractedColor | null = null
+    let bestScore = -Infinity
+
+    for (const color of colors) {
+      if (used.has(color)) continue
+      const { s, l } = rgbToHsl(color.rgb)
+      if (s < target.saturation[0] || s > target.saturation[2]) continue
+      if (l < target.lightness[0] || l > target.lightness[2]) continue
+
+      const score = scoreSwatch(color, target, maxPopulation)
+      if (score > bestScore) {
+        bestScore = score
+        best = color
+      }
+    }
+
+    if (best) {
+      used.add(best)
+      swatches[role] = createSwatch(best.rgb, best.population, false, contrastAlgorithm)
+    }
+  }
+
+  for (const role of roles) {
+    if (swatches[role]) continue
+    const target = SWATCH_TARGETS[role]
+
+    // 범위와 관계없이 목표에 가장 가까운 색상을 기준으로 합성
+    const source = colors.reduce((best, c) =>
+      scoreSwatch(c, target, maxPopulation) > scoreSwatch(best, target, maxPopulation) ? c : best
+    )
+    // 무채색에는 의미 있는 색상각이 없으므로 채도를 올리지 않음
+    const hsl = rgbToHsl(source.rgb)
+    const saturation =
+      hsl.s < ACHROMATIC_SATURATION
+        ? hsl.s
+        : Math.min(target.saturation[2], Math.max(target.saturation[0], hsl.s))
+    const rgb = hslToRgb({ h: hsl.h, s: saturation, l: target.lightness[1] })
+    swatches[role] = createSwatch(rgb, 0, true, contrastAlgorithm)
+  }
+
+  return swatches
+}
@@ -0,0 +1,162 @@
+/**
+ * 픽셀 가중치 유틸리티
+ * 넓은 단색 배경보다 피사체의 색상이 우선되도록 샘플링한 픽셀에 가중치 부여
+ *
+ * 인라인 Worker 코드에 함수 소스가 그대로 삽입되므로
+ * 각 함수는 이 파일의 함수 외에는 외부 값을 참조하지 않아야 함
+ */
+
+import type { PixelRect } from './region'
+
+/**
+ * 픽셀 가중치 방식
+ * - uniform: 모든 픽셀 동일
+ * - center: 영역 중심에서 멀어질수록 감소
+ * - saliency: 주변과 밝기 차이(에지 에너지)가 클수록 증가
+ */
+export type PixelWeighting = 'uniform' | 'center' | 'saliency'
+
+/**
+ * 영역 중심으로부터의 방사형 가중치
+ * 거리는 중심 0, 모서리 1로 정규화하며 falloff 거리에서 가중치가 절반이 됨
+ */
+export function computeCenterWeight(
+  x: number,
+  y: number,
+  rect: PixelRect,
+  falloff: number
+): number {
+  const dx = (x + 0.5 - rect.x - rect.width / 2) / (rect.width / 2)
+  const dy = (y + 0.5 - rect.y - rect.height / 2) / (rect.height / 2)
+  const distance = Math.sqrt((dx * dx + dy * dy) / 2)
+  return Math.pow(0.5, Math.pow(distance / Math.max(falloff, 1e-3), 2))
+}
+
+/**
+ * 영역 내 각 픽셀의 현저성(saliency) 맵 계산
+ * 밝기의 Sobel 에지 에너지를 박스 블러로 퍼뜨려 경계뿐 아니라 피사체 내부까지 반영
+ * 결과는 rect 기준 행 우선 배열이며 0.05~1 범위 (평탄한 영역도 완전히 제외하지 않음)
+ */
+export function computeSaliencyMap(
+  data: ArrayLike<number>,
+  width: number,
+  rect: PixelRect
+): Float32Array {
+  const w = rect.width
+  const h = rect.height
+
+  const luminance = new Float32Array(w * h)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = ((rect.y + y) * width + rect.x + x) * 4
+      luminance[y * w + x] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+    }
+  }
+
+  // Sobel 연산 (가장자리는 경계 픽셀을 반복 사용)
+  const energy = new Float32Array(w * h)
+  const at = (x: number, y: number) =>
+    luminance[Math.min(h - 1, Math.max(0, y)) * w + Math.min(w - 1, Math.max(0, x))]
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)
+      energy[y * w + x] = Math.sqrt(gx * gx + gy * gy)
+    }
+  }
+
+  // 가로/세로 분리 박스 블러 (반경은 영역 크기의 약 1/16)
+  const radius = Math.max(1, Math.round(Math.min(w, h) / 16))
+  const blur = (src: Float32Array, horizontal: boolean) => {
+    const out = new Float32Array(w * h)
+    const lines = horizontal ? h : w
+    const length = horizontal ? w : h
+    for (let line = 0; line < lines; line++) {
+      const index = (i: number) => (horizontal ? line * w + i : i * w + line)
+      let sum = 0
+      for (let i = -radius; i <= radius; i++) {
+        sum += src[index(Math.min(length - 1, Math.max(0, i)))]
+      }
+      for (let i = 0; i < length; i++) {
+        out[index(i)] = sum / (radius * 2 + 1)
+        sum -= src[index(Math.max(0, i - radius))]
+        sum += src[index(Math.min(length - 1, i + radius + 1))]
+      }
+    }
+    return out
+  }
+  const map = blur(blur(energy, true), false)
+
+  let max = 0
+  for (let i = 0; i < map.length; i++) {
+    if (map[i] > max) max = map[i]
+  }
+  for (let i = 0; i < map.length; i++) {
+    map[i] = max > 0 ? 0.05 + (0.95 * map[i]) / max : 1
+  }
+
+  return map
+}
+
+/**
+ * 샘플링한 픽셀 위치별 가중치 계산
+ * positions는 이미지 기준 픽셀 인덱스 (y * width + x)
+ */
+export function computePixelWeights(
+  data: ArrayLike<number>,
+  width: number,
+  rect: PixelRect,
+  positions: number[],
+  weighting: PixelWeighting,
+  centerFalloff: number
+): number[] {
+  if (weighting === 'center') {
+    return positions.map(p =>
+      computeCenterWeight(p % width, Math.floor(p / width), rect, centerFalloff)
+    )
+  }
+
+  if (weighting === 'saliency') {
+    const map = computeSaliencyMap(data, width, rect)
+    return positions.map(p => {
+      const x = (p % width) - rect.x
+      const y = Math.floor(p / width) - rect.y
+      return map[y * rect.width + x]
+    })
+  }
+
+  return positions.map(() => 1)
+}
+
+/**
+ * 가중치에 비례하도록 픽셀을 같은 개수만큼 다시 샘플링 (systematic resampling)
+ * 클러스터링과 population이 가중치를 그대로 반영하며 random으로 결과를 재현 가능
+ */
+export function resampleByWeight(
+  pixels: number[][],
+  weights: number[],
+  random: () => number
+): number[][] {
+  let total = 0
+  for (const w of weights) total += w
+  if (total <= 0 || pixels.length === 0) return pixels
+
+  const step = total / pixels.length
+  const result: number[][] = []
+  let target = random() * step
+  let cumulative = 0
+
+  for (let i = 0; i < pixels.length && result.length < pixels.length; i++) {
+    cumulative += weights[i]
+    while (target < cumulative && result.length < pixels.length) {
+      result.push(pixels[i])
+      target += step
+    }
+  }
+
+  return result
+}
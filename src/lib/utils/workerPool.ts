@@ -1,31 +1,182 @@
 /**
- * Web Worker를 사용한 색상 추출
- * 메인 스레드 블로킹 방지
+ * Web Worker 풀을 사용한 색상 추출
+ * 메인 스레드 블로킹 방지, 여러 요청은 우선순위 큐를 거쳐 여러 Worker에서 병렬 처리
  */
 
 import type { ExtractedColor } from './colorExtractor'
+import type { PixelExtractionDiagnostics } from './extractionCore'
+import {
+  srgbToLinear,
+  linearToSrgb,
+  rgbToLab,
+  labToRgb,
+  rgbToOklab,
+  oklabToRgb,
+  toColorSpace,
+  fromColorSpace,
+} from './colorSpace'
+import type { ColorSpace } from './colorSpace'
+import { resolveRegion } from './region'
+import type { ColorRegion } from './region'
+import { passesPixelFilter, resolvePixelFilterConfig } from './pixelFilter'
+import type { PixelFilterConfig, PixelFilterPreset } from './pixelFilter'
+import { medianCut, octreeQuantize, quantizePixels } from './quantize'
+import type { QuantizationAlgorithm } from './quantize'
+import { createRandom } from './random'
+import { clusterKMeans, kMeans, toPointBuffer } from './kmeans'
+import {
+  computeInertia,
+  computeSilhouette,
+  selectColorCount,
+  clusterWithAutoColorCount,
+} from './colorCount'
+import type { ColorCountMethod } from './colorCount'
+import { deltaE2000, colorDifference, mergeSimilarColors } from './colorMerge'
+import type { ColorDifferenceMetric } from './colorMerge'
+import { createAbortScope } from './abort'
+import { withColorNames } from './colorNames'
+import {
+  computeCenterWeight,
+  computeSaliencyMap,
+  computePixelWeights,
+  resampleByWeight,
+} from './weighting'
+import type { PixelWeighting } from './weighting'
 
 export interface WorkerExtractionOptions {
-  colorCount: number
+  colorCount: number | 'auto'
+  minColorCount: number
+  maxColorCount: number
+  colorCountMethod: ColorCountMethod
+  /** 실제 사용된 색상 수를 전달받는 콜백 (Worker로 전달되지 않음) */
+  onColorCountResolved?: (colorCount: number) => void
   quality: number
   maxIterations: number
   sampleSize: number
+  colorSpace: ColorSpace
+  region: ColorRegion
+  /** 함수 필터는 Worker로 전달할 수 없으므로 설정 객체 또는 프리셋만 지원 */
+  pixelFilter?: PixelFilterPreset | PixelFilterConfig
+  weighting: PixelWeighting
+  centerFalloff: number
+  algorithm: QuantizationAlgorithm
+  seed: number
+  mergeThreshold: number
+  mergeMetric: ColorDifferenceMetric
+  preserveColorCount: boolean
+  /** 색상 이름 추가 여부 (Worker 응답을 받은 뒤 메인 스레드에서 처리) */
+  includeNames?: boolean
+  /** 큐에서의 우선순위, 높을수록 먼저 처리하고 같으면 요청 순서 (기본: 0) */
+  priority?: number
+  /** 요청을 취소하는 signal, abort되면 큐에서 제거하거나 Worker에 취소 메시지 전송 */
+  signal?: AbortSignal
+  /** 제한 시간 (ms) */
+  timeoutMs?: number
 }
 
-interface WorkerMessage {
-  type: 'extract'
-  imageData: ImageData
-  options: WorkerExtractionOptions
+/** 메인 스레드에서 읽은 픽셀 (버퍼는 Worker로 전송되어 호출한 쪽에서는 비워짐) */
+interface WorkerPixels {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+/** Worker에서 직접 불러와 디코딩할 이미지 */
+interface WorkerImageSource {
+  /** 절대 URL 또는 Blob */
+  source: string | Blob
+  /** 축소할 최대 크기 (긴 변 기준 px) */
+  maxDimension: number
+}
+
+/** Worker에서 디코딩한 경우의 진단 정보 */
+export interface WorkerSourceDiagnostics extends Omit<PixelExtractionDiagnostics, 'timings'> {
+  canvasWidth: number
+  canvasHeight: number
+  timings: {
+    load: number
+    draw: number
+    sample: number
+    cluster: number
+  }
 }
 
+type WorkerMessage =
+  | {
+      type: 'extract'
+      id: number
+      input: { pixels: WorkerPixels } | { image: WorkerImageSource }
+      options: Omit<
+        WorkerExtractionOptions,
+        | 'pixelFilter'
+        | 'onColorCountResolved'
+        | 'includeNames'
+        | 'priority'
+        | 'signal'
+        | 'timeoutMs'
+      > & {
+        pixelFilter: Required<PixelFilterConfig>
+        /** 작업을 중단할 시각 (Date.now() 기준, 제한 없으면 Infinity) */
+        deadline: number
+      }
+    }
+  | {
+      type: 'cancel'
+      id: number
+    }
+
 interface WorkerResponse {
-  type: 'result' | 'error'
+  /** ready 메시지는 0 */
+  id: number
+  /** ready: 스크립트가 로드되어 메시지를 받을 수 있음 */
+  type: 'ready' | 'result' | 'error'
   colors?: ExtractedColor[]
+  diagnostics?: PixelExtractionDiagnostics
+  /** Worker에서 디코딩한 경우 축소 캔버스 크기와 소요 시간 */
+  decode?: { canvasWidth: number; canvasHeight: number; load: number; draw: number }
   error?: string
 }
 
-let worker: Worker | null = null
+export interface WorkerPoolConfig {
+  /** 최대 Worker 수 (기본: navigator.hardwareConcurrency - 1, 최소 1) */
+  size?: number
+  /** 작업이 없는 Worker를 종료할 때까지의 시간 (ms, 기본: 30000, 0이면 종료하지 않음) */
+  idleTimeoutMs?: number
+}
+
+type ExtractMessage = Extract<WorkerMessage, { type: 'extract' }>
+
+interface PoolJob {
+  id: number
+  priority: number
+  message: ExtractMessage
+  /** 복사하지 않고 Worker로 넘길 버퍼 */
+  transfer: Transferable[]
+  resolve: (response: WorkerResponse) => void
+  reject: (reason: unknown) => void
+}
+
+interface PoolWorker {
+  worker: Worker
+  /** 처리 중인 요청 ID (취소된 요청도 Worker가 응답할 때까지 유지) */
+  activeId: number | null
+  /** 처리 중인 작업 (취소되면 null) */
+  job: PoolJob | null
+  /** Worker 스크립트가 로드되었는지 여부 (ready 메시지 수신) */
+  ready: boolean
+  idleTimer?: ReturnType<typeof setTimeout>
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30_000
+
+const poolConfig: WorkerPoolConfig = {}
+const workers: PoolWorker[] = []
+/** 대기 중인 작업 (우선순위 내림차순, 같으면 요청 순서) */
+const queue: PoolJob[] = []
+
+let workerUrl: string | null = null
 let workerSupported: boolean | null = null
+let nextRequestId = 0
 
 /**
  * Worker 지원 여부 확인
@@ -38,180 +189,281 @@ function isWorkerSupported(): boolean {
 }
 
 /**
- * Worker 인스턴스 생성 (싱글톤)
+ * Worker 풀 설정 변경
+ * 크기를 줄이면 초과한 Worker는 처리 중인 작업을 마친 뒤 종료
  */
-function getWorker(): Worker | null {
-  if (!isWorkerSupported()) return null
-
-  if (!worker) {
-    try {
-      // Worker를 inline blob으로 생성하여 번들링 문제 회피
-      const workerCode = `
-        ${getWorkerCode()}
-      `
-      const blob = new Blob([workerCode], { type: 'application/javascript' })
-      worker = new Worker(URL.createObjectURL(blob))
-    } catch {
-      workerSupported = false
-      return null
-    }
-  }
+export function configureWorkerPool(config: WorkerPoolConfig): void {
+  Object.assign(poolConfig, config)
+  dispatch()
+}
 
-  return worker
+function getPoolSize(): number {
+  if (poolConfig.size !== undefined) return Math.max(1, Math.floor(poolConfig.size))
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0
+  return Math.max(1, (cores || 2) - 1)
 }
 
 /**
- * Worker 코드 (인라인)
+ * 풀에 Worker 추가
  */
-function getWorkerCode(): string {
-  return `
-    function rgbToHex(rgb) {
-      const toHex = (n) => {
-        const hex = Math.round(Math.max(0, Math.min(255, n))).toString(16);
-        return hex.length === 1 ? '0' + hex : hex;
-      };
-      return '#' + toHex(rgb.r) + toHex(rgb.g) + toHex(rgb.b);
-    }
+function createPoolWorker(): PoolWorker | null {
+  if (!isWorkerSupported()) return null
 
-    function colorDistance(c1, c2) {
-      return Math.sqrt(
-        Math.pow(c1.r - c2.r, 2) +
-        Math.pow(c1.g - c2.g, 2) +
-        Math.pow(c1.b - c2.b, 2)
-      );
+  try {
+    // Worker를 inline blob으로 생성하여 번들링 문제 회피
+    if (!workerUrl) {
+      const blob = new Blob([getWorkerCode()], { type: 'application/javascript' })
+      workerUrl = URL.createObjectURL(blob)
     }
 
-    function getPixelsFromImageData(imageData, quality, sampleSize) {
-      const pixels = [];
-      const data = imageData.data;
-      const pixelCount = imageData.width * imageData.height;
-      const step = Math.max(1, Math.floor(pixelCount / sampleSize) * quality);
+    const entry: PoolWorker = {
+      worker: new Worker(workerUrl),
+      activeId: null,
+      job: null,
+      ready: false,
+    }
+    entry.worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      if (event.data.type === 'ready') {
+        entry.ready = true
+        return
+      }
+      // 취소 후 도착한 응답도 Worker를 다시 사용할 수 있다는 신호로 처리
+      if (event.data.id !== entry.activeId) return
+      const job = entry.job
+      entry.activeId = null
+      entry.job = null
+      job?.resolve(event.data)
+      dispatch()
+    })
+    entry.worker.addEventListener('error', event => {
+      if (!entry.ready) {
+        // 스크립트 로드 실패(CSP 차단 등)는 다시 시도해도 반복되므로 이후 요청은 메인 스레드로 처리
+        disableWorkers(new Error(event.message || 'Web Worker failed to start'))
+        return
+      }
 
-      for (let i = 0; i < data.length; i += 4 * step) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        const a = data[i + 3];
+      // 작업 중 오류는 처리 중인 작업만 실패시키고 해당 Worker를 새 Worker로 교체
+      const job = entry.job
+      removeWorker(entry)
+      job?.reject(new Error(event.message || 'Web Worker error'))
+      dispatch()
+    })
+    workers.push(entry)
+    return entry
+  } catch {
+    workerSupported = false
+    return null
+  }
+}
 
-        if (a >= 125) {
-          if (!(r > 250 && g > 250 && b > 250) && !(r < 5 && g < 5 && b < 5)) {
-            pixels.push({ r, g, b });
-          }
-        }
+/**
+ * 대기 중인 작업을 쉬고 있는 Worker에 배정
+ * 필요하면 풀 크기까지 Worker를 만들고, 남는 Worker는 유휴 타이머를 시작하거나 종료
+ */
+function dispatch(): void {
+  while (queue.length > 0) {
+    const idle =
+      workers.find(entry => entry.activeId === null) ??
+      (workers.length < getPoolSize() ? createPoolWorker() : null)
+
+    if (!idle) {
+      // Worker를 하나도 만들 수 없으면 대기 중인 작업은 메인 스레드로 넘김
+      if (workers.length === 0) {
+        rejectQueue(new Error('Web Worker not supported'))
       }
-
-      return pixels;
+      break
     }
 
-    function initializeCentroidsKMeansPlusPlus(pixels, k) {
-      if (pixels.length === 0) return [];
-
-      const centroids = [];
-      const firstIndex = Math.floor(Math.random() * pixels.length);
-      centroids.push({ ...pixels[firstIndex] });
+    const job = queue.shift()!
+    clearTimeout(idle.idleTimer)
+    idle.idleTimer = undefined
+    idle.activeId = job.id
+    idle.job = job
+    idle.worker.postMessage(job.message, job.transfer)
+  }
 
-      while (centroids.length < k) {
-        const distances = [];
-        let totalDistance = 0;
+  for (const entry of [...workers]) {
+    if (entry.activeId !== null) continue
+    if (workers.length > getPoolSize()) {
+      removeWorker(entry)
+    } else if (!entry.idleTimer) {
+      const idleTimeoutMs = poolConfig.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS
+      if (idleTimeoutMs > 0) {
+        entry.idleTimer = setTimeout(() => removeWorker(entry), idleTimeoutMs)
+      }
+    }
+  }
+}
 
-        for (const pixel of pixels) {
-          let minDist = Infinity;
-          for (const centroid of centroids) {
-            const dist = colorDistance(pixel, centroid);
-            if (dist < minDist) minDist = dist;
-          }
-          distances.push(minDist * minDist);
-          totalDistance += minDist * minDist;
-        }
+/**
+ * 작업을 우선순위 큐에 추가 (같은 우선순위에서는 먼저 요청한 작업이 앞)
+ */
+function enqueue(job: PoolJob): void {
+  let index = queue.length
+  while (index > 0 && queue[index - 1].priority < job.priority) index--
+  queue.splice(index, 0, job)
+  dispatch()
+}
 
-        const random = Math.random() * totalDistance;
-        let sum = 0;
-        for (let i = 0; i < pixels.length; i++) {
-          sum += distances[i];
-          if (sum >= random) {
-            centroids.push({ ...pixels[i] });
-            break;
-          }
-        }
+/**
+ * 작업 취소
+ * 대기 중이면 큐에서 제거하고, 처리 중이면 Worker에 취소 메시지를 보냄
+ */
+function cancelJob(job: PoolJob): void {
+  const index = queue.indexOf(job)
+  if (index !== -1) {
+    queue.splice(index, 1)
+    return
+  }
 
-        if (centroids.length < Math.min(k, pixels.length)) {
-          centroids.push({ ...pixels[pixels.length - 1] });
-        }
-      }
+  const entry = workers.find(w => w.job === job)
+  if (entry) {
+    entry.job = null
+    const cancel: WorkerMessage = { type: 'cancel', id: job.id }
+    entry.worker.postMessage(cancel)
+  }
+}
 
-      return centroids;
-    }
+function removeWorker(entry: PoolWorker): void {
+  clearTimeout(entry.idleTimer)
+  entry.worker.terminate()
+  const index = workers.indexOf(entry)
+  if (index !== -1) workers.splice(index, 1)
+}
 
-    function assignToClusters(pixels, centroids) {
-      return pixels.map(pixel => {
-        let minDist = Infinity;
-        let closestIndex = 0;
+function rejectQueue(reason: unknown): void {
+  for (const job of queue.splice(0)) job.reject(reason)
+}
 
-        for (let i = 0; i < centroids.length; i++) {
-          const dist = colorDistance(pixel, centroids[i]);
-          if (dist < minDist) {
-            minDist = dist;
-            closestIndex = i;
-          }
-        }
+/**
+ * 모든 Worker를 종료하고 처리 중이거나 대기 중인 작업을 reason으로 reject
+ */
+function terminatePool(reason: unknown): void {
+  for (const entry of workers.splice(0)) {
+    clearTimeout(entry.idleTimer)
+    entry.worker.terminate()
+    entry.job?.reject(reason)
+  }
+  rejectQueue(reason)
+}
 
-        return closestIndex;
-      });
-    }
+/**
+ * 실패한 Worker를 정리하고 이후 요청에서 사용하지 않음
+ */
+function disableWorkers(reason: unknown): void {
+  workerSupported = false
+  terminatePool(reason)
+}
 
-    function updateCentroids(pixels, assignments, k) {
-      const sums = Array.from({ length: k }, () => ({ r: 0, g: 0, b: 0 }));
-      const counts = Array(k).fill(0);
+/**
+ * 메인 스레드와 공유하는 함수들
+ * 소스 문자열 그대로 Worker 코드에 삽입되어 두 경로의 결과를 일치시킴
+ */
+const SHARED_WORKER_FUNCTIONS: Record<string, (...args: never[]) => unknown> = {
+  srgbToLinear,
+  linearToSrgb,
+  rgbToLab,
+  labToRgb,
+  rgbToOklab,
+  oklabToRgb,
+  toColorSpace,
+  fromColorSpace,
+  resolveRegion,
+  passesPixelFilter,
+  medianCut,
+  octreeQuantize,
+  quantizePixels,
+  createRandom,
+  toPointBuffer,
+  kMeans,
+  clusterKMeans,
+  computeInertia,
+  computeSilhouette,
+  selectColorCount,
+  clusterWithAutoColorCount,
+  deltaE2000,
+  colorDifference,
+  mergeSimilarColors,
+  computeCenterWeight,
+  computeSaliencyMap,
+  computePixelWeights,
+  resampleByWeight,
+}
 
-      for (let i = 0; i < pixels.length; i++) {
-        const clusterIndex = assignments[i];
-        sums[clusterIndex].r += pixels[i].r;
-        sums[clusterIndex].g += pixels[i].g;
-        sums[clusterIndex].b += pixels[i].b;
-        counts[clusterIndex]++;
-      }
+/**
+ * 공유 함수 소스 직렬화
+ * 번들러가 함수 이름을 축약해도 Worker 코드에서 원래 이름으로 호출할 수 있도록 별칭 추가
+ */
+function serializeSharedFunctions(): string {
+  return Object.entries(SHARED_WORKER_FUNCTIONS)
+    .map(([name, fn]) =>
+      fn.name === name ? fn.toString() : `${fn.toString()}\nvar ${name} = ${fn.name};`
+    )
+    .join('\n\n')
+}
 
-      const centroids = sums.map((sum, i) => {
-        if (counts[i] === 0) {
-          return { r: 128, g: 128, b: 128 };
-        }
-        return {
-          r: Math.round(sum.r / counts[i]),
-          g: Math.round(sum.g / counts[i]),
-          b: Math.round(sum.b / counts[i]),
-        };
-      });
+/**
+ * Worker 코드 (인라인)
+ */
+function getWorkerCode(): string {
+  return `
+    ${serializeSharedFunctions()}
 
-      return { centroids, counts };
+    function rgbToHex(rgb) {
+      const toHex = (n) => {
+        const hex = Math.round(Math.max(0, Math.min(255, n))).toString(16);
+        return hex.length === 1 ? '0' + hex : hex;
+      };
+      return '#' + toHex(rgb.r) + toHex(rgb.g) + toHex(rgb.b);
     }
 
-    function kMeansClustering(pixels, k, maxIterations) {
-      if (pixels.length === 0) {
-        return { centroids: [], counts: [] };
-      }
+    function getPixelsFromImageData(
+      imageData,
+      quality,
+      sampleSize,
+      region,
+      pixelFilter,
+      weighting,
+      centerFalloff,
+      seed
+    ) {
+      const pixels = [];
+      const positions = [];
+      const data = imageData.data;
+      const rect = resolveRegion(region, imageData.width, imageData.height);
+      const pixelCount = rect.width * rect.height;
+      const step = Math.max(1, Math.floor(pixelCount / sampleSize) * quality);
+      let sampledPixels = 0;
 
-      const actualK = Math.min(k, pixels.length);
-      let centroids = initializeCentroidsKMeansPlusPlus(pixels, actualK);
-      let assignments = [];
-      let counts = [];
+      if (data.length === 0) return { pixels, sampledPixels };
 
-      for (let iteration = 0; iteration < maxIterations; iteration++) {
-        const newAssignments = assignToClusters(pixels, centroids);
+      for (let n = 0; n < pixelCount; n += step) {
+        sampledPixels++;
+        const x = rect.x + (n % rect.width);
+        const y = rect.y + Math.floor(n / rect.width);
+        const i = (y * imageData.width + x) * 4;
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        const a = data[i + 3];
 
-        if (
-          assignments.length > 0 &&
-          newAssignments.every((a, i) => a === assignments[i])
-        ) {
-          break;
+        if (passesPixelFilter(r, g, b, a, pixelFilter)) {
+          pixels.push([r, g, b]);
+          positions.push(y * imageData.width + x);
         }
-
-        assignments = newAssignments;
-        const result = updateCentroids(pixels, assignments, actualK);
-        centroids = result.centroids;
-        counts = result.counts;
       }
 
-      return { centroids, counts };
+      if (weighting === 'uniform') return { pixels, sampledPixels };
+
+      const weights = computePixelWeights(
+        data,
+        imageData.width,
+        rect,
+        positions,
+        weighting,
+        centerFalloff
+      );
+      return { pixels: resampleByWeight(pixels, weights, createRandom(seed)), sampledPixels };
     }
 
     function getSaturation(rgb) {
@@ -228,22 +480,92 @@ function getWorkerCode(): string {
       return l > 0.5 ? d / (2 - max - min) : d / (max + min);
     }
 
-    function extractColorsFromImageData(imageData, options) {
-      const pixels = getPixelsFromImageData(
+    function clusterPixels(pixels, k, options, check, getPoints) {
+      check();
+      if (options.algorithm !== 'kmeans') {
+        const quantized = quantizePixels(pixels, k, options.algorithm, options.colorSpace);
+        return { ...quantized, iterations: 0, converged: true };
+      }
+
+      return clusterKMeans(
+        getPoints(),
+        k,
+        options.maxIterations,
+        options.colorSpace,
+        options.seed,
+        check
+      );
+    }
+
+    function extractColorsFromImageData(imageData, options, check) {
+      const sampleStart = performance.now();
+      const { pixels, sampledPixels } = getPixelsFromImageData(
         imageData,
         options.quality,
-        options.sampleSize
+        options.sampleSize,
+        options.region,
+        options.pixelFilter,
+        options.weighting,
+        options.centerFalloff,
+        options.seed
       );
 
+      const clusterStart = performance.now();
+      const diagnostics = {
+        sampledPixels,
+        filteredPixels: sampledPixels - pixels.length,
+        colorCount: 0,
+        iterations: 0,
+        converged: true,
+        inertia: 0,
+        timings: { sample: clusterStart - sampleStart, cluster: 0 },
+      };
+
       if (pixels.length === 0) {
-        return [];
+        return { colors: [], diagnostics };
       }
 
-      const { centroids, counts } = kMeansClustering(
-        pixels,
-        options.colorCount,
-        options.maxIterations
+      // K-means 좌표 버퍼는 colorCount가 'auto'일 때 모든 k에서 재사용
+      let pointBuffer = null;
+      const getPoints = () => (pointBuffer ??= toPointBuffer(pixels, options.colorSpace));
+      const cluster = (k) => clusterPixels(pixels, k, options, check, getPoints);
+      const result =
+        options.colorCount === 'auto'
+          ? clusterWithAutoColorCount(
+              pixels,
+              options.minColorCount,
+              options.maxColorCount,
+              options.colorCountMethod,
+              options.colorSpace,
+              cluster
+            )
+          : {
+              colorCount: Math.min(options.colorCount, pixels.length),
+              ...cluster(Math.min(options.colorCount, pixels.length)),
+            };
+      const colorCount = result.colorCount;
+
+      const { centroids, counts } =
+        options.mergeThreshold > 0
+          ? mergeSimilarColors(
+              pixels,
+              result.centroids,
+              result.counts,
+              options.mergeThreshold,
+              options.mergeMetric,
+              options.preserveColorCount ? colorCount : 0
+            )
+          : result;
+
+      const points = pixels.map(p => toColorSpace(p[0], p[1], p[2], options.colorSpace));
+      diagnostics.colorCount = colorCount;
+      diagnostics.iterations = result.iterations;
+      diagnostics.converged = result.converged;
+      diagnostics.inertia = computeInertia(
+        points,
+        centroids.map(c => toColorSpace(c.r, c.g, c.b, options.colorSpace))
       );
+      diagnostics.timings.cluster = performance.now() - clusterStart;
 
       const totalPixels = counts.reduce((a, b) => a + b, 0);
 
@@ -261,24 +583,113 @@ function getWorkerCode(): string {
           return scoreB - scoreA;
         });
 
-      return colors;
+      return { colors, diagnostics };
     }
 
-    self.onmessage = (event) => {
-      const { type, imageData, options } = event.data;
-
-      if (type === 'extract') {
-        try {
-          const colors = extractColorsFromImageData(imageData, options);
-          self.postMessage({ type: 'result', colors });
-        } catch (error) {
-          self.postMessage({
-            type: 'error',
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
+    async function decodeImage(image, region, signal) {
+      if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+        throw new Error('Image decoding is not supported in this worker');
+      }
+
+      const loadStart = performance.now();
+      let blob = image.source;
+      if (typeof blob === 'string') {
+        // <img crossOrigin="anonymous">와 같은 CORS 요청
+        const response = await fetch(blob, { mode: 'cors', credentials: 'same-origin', signal });
+        if (!response.ok) throw new Error('Failed to load image: ' + response.status);
+        blob = await response.blob();
+      }
+      const bitmap = await createImageBitmap(blob);
+      const drawStart = performance.now();
+
+      try {
+        const rect = resolveRegion(region, bitmap.width, bitmap.height);
+        const scale = Math.min(1, image.maxDimension / Math.max(rect.width, rect.height));
+        const canvas = new OffscreenCanvas(
+          Math.max(1, Math.floor(rect.width * scale)),
+          Math.max(1, Math.floor(rect.height * scale))
+        );
+        const ctx = canvas.getContext('2d');
+        ctx.drawImage(
+          bitmap,
+          rect.x,
+          rect.y,
+          rect.width,
+          rect.height,
+          0,
+          0,
+          canvas.width,
+          canvas.height
+        );
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        return {
+          imageData,
+          decode: {
+            canvasWidth: canvas.width,
+            canvasHeight: canvas.height,
+            load: drawStart - loadStart,
+            draw: performance.now() - drawStart,
+          },
+        };
+      } finally {
+        bitmap.close();
+      }
+    }
+
+    const cancelledIds = new Set();
+    const fetchControllers = new Map();
+
+    async function runExtraction(id, input, options) {
+      const check = () => {
+        if (cancelledIds.has(id)) throw new Error('Color extraction was cancelled');
+        if (Date.now() >= options.deadline) throw new Error('Color extraction timed out');
+      };
+      const controller = new AbortController();
+      fetchControllers.set(id, controller);
+
+      try {
+        check();
+        let imageData = input.pixels;
+        let decode;
+        let region = options.region;
+        if (input.image) {
+          ({ imageData, decode } = await decodeImage(input.image, region, controller.signal));
+          // 영역은 이미 캔버스에 잘라서 그렸으므로 전체 사용
+          region = 'full';
+          check();
         }
+        const { colors, diagnostics } = extractColorsFromImageData(
+          imageData,
+          { ...options, region },
+          check
+        );
+        self.postMessage({ id, type: 'result', colors, diagnostics, decode });
+      } catch (error) {
+        self.postMessage({
+          id,
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      } finally {
+        cancelledIds.delete(id);
+        fetchControllers.delete(id);
+      }
+    }
+
+    self.onmessage = (event) => {
+      const { type, id } = event.data;
+
+      if (type === 'cancel') {
+        cancelledIds.add(id);
+        fetchControllers.get(id)?.abort();
+      } else if (type === 'extract') {
+        // 뒤따라 도착한 취소 메시지를 먼저 처리할 수 있도록 다음 태스크에서 시작
+        setTimeout(() => runExtraction(id, event.data.input, event.data.options));
       }
     };
+
+    // 시작 실패(CSP 차단 등)와 작업 중 오류를 구분할 수 있도록 로드 완료를 알림
+    self.postMessage({ id: 0, type: 'ready' });
   `
 }
 
@@ -289,56 +700,164 @@ export async function extractColorsWithWorker(
   imageData: ImageData,
   options: WorkerExtractionOptions
 ): Promise<ExtractedColor[]> {
-  const w = getWorker()
+  const { colors } = await extractColorsWithWorkerDetailed(imageData, options)
+  return colors
+}
 
-  if (!w) {
-    throw new Error('Web Worker not supported')
+/**
+ * Worker를 사용하여 색상과 진단 정보 추출
+ * imageData의 픽셀 버퍼는 복사하지 않고 Worker로 전송되므로 호출 후에는 비어 있음
+ */
+export async function extractColorsWithWorkerDetailed(
+  imageData: ImageData,
+  options: WorkerExtractionOptions
+): Promise<{ colors: ExtractedColor[]; diagnostics: PixelExtractionDiagnostics }> {
+  const { data, width, height } = imageData
+  const { colors, diagnostics } = await runWorkerJob(
+    { pixels: { data, width, height } },
+    [data.buffer],
+    options
+  )
+  return { colors, diagnostics }
+}
+
+/**
+ * URL 또는 Blob을 Worker에서 불러와 디코딩한 뒤 색상 추출
+ * createImageBitmap과 OffscreenCanvas로 축소하므로 메인 스레드에서는 이미지 작업을 하지 않음
+ * URL은 Worker 기준으로 해석되므로 절대 URL이어야 하고, region은 원본 크기 기준으로 적용
+ */
+export async function extractColorsWithWorkerFromSource(
+  source: string | Blob,
+  maxDimension: number,
+  options: WorkerExtractionOptions
+): Promise<{ colors: ExtractedColor[]; diagnostics: WorkerSourceDiagnostics }> {
+  const { colors, diagnostics, decode } = await runWorkerJob(
+    { image: { source, maxDimension } },
+    [],
+    options
+  )
+  if (!decode) {
+    throw new Error('Worker did not decode the image')
+  }
+
+  const { canvasWidth, canvasHeight, load, draw } = decode
+  return {
+    colors,
+    diagnostics: {
+      ...diagnostics,
+      canvasWidth,
+      canvasHeight,
+      timings: { load, draw, ...diagnostics.timings },
+    },
   }
+}
+
+/**
+ * Worker 풀에 작업을 요청하고 응답을 기다림
+ * 쉬는 Worker가 없으면 우선순위 큐에서 차례를 기다림
+ */
+function runWorkerJob(
+  input: ExtractMessage['input'],
+  transfer: Transferable[],
+  options: WorkerExtractionOptions
+): Promise<{
+  colors: ExtractedColor[]
+  diagnostics: PixelExtractionDiagnostics
+  decode?: WorkerResponse['decode']
+}> {
+  if (!isWorkerSupported()) {
+    return Promise.reject(new Error('Web Worker not supported'))
+  }
+
+  const scope = createAbortScope(options.signal, options.timeoutMs)
+  const id = ++nextRequestId
 
   return new Promise((resolve, reject) => {
-    const handleMessage = (event: MessageEvent<WorkerResponse>) => {
-      w.removeEventListener('message', handleMessage)
-      w.removeEventListener('error', handleError)
-
-      if (event.data.type === 'result' && event.data.colors) {
-        resolve(event.data.colors)
-      } else {
-        reject(new Error(event.data.error || 'Unknown error'))
-      }
+    if (scope.signal.aborted) {
+      scope.dispose()
+      reject(scope.signal.reason)
+      return
     }
 
-    const handleError = (error: ErrorEvent) => {
-      w.removeEventListener('message', handleMessage)
-      w.removeEventListener('error', handleError)
-      reject(new Error(error.message))
+    const cleanup = () => {
+      scope.signal.removeEventListener('abort', handleAbort)
+      scope.dispose()
     }
 
-    w.addEventListener('message', handleMessage)
-    w.addEventListener('error', handleError)
-
-    const message: WorkerMessage = {
-      type: 'extract',
-      imageData,
-      options: {
-        colorCount: options.colorCount,
-        quality: options.quality,
-        maxIterations: options.maxIterations,
-        sampleSize: options.sampleSize,
+    const timeRemaining = scope.timeRemaining()
+    const job: PoolJob = {
+      id,
+      priority: options.priority ?? 0,
+      message: {
+        type: 'extract',
+        id,
+        input,
+        options: {
+          colorCount: options.colorCount,
+          minColorCount: options.minColorCount,
+          maxColorCount: options.maxColorCount,
+          colorCountMethod: options.colorCountMethod,
+          quality: options.quality,
+          maxIterations: options.maxIterations,
+          sampleSize: options.sampleSize,
+          colorSpace: options.colorSpace,
+          region: options.region,
+          pixelFilter: resolvePixelFilterConfig(options.pixelFilter),
+          weighting: options.weighting,
+          centerFalloff: options.centerFalloff,
+          algorithm: options.algorithm,
+          seed: options.seed,
+          mergeThreshold: options.mergeThreshold,
+          mergeMetric: options.mergeMetric,
+          preserveColorCount: options.preserveColorCount,
+          deadline: timeRemaining === undefined ? Infinity : Date.now() + timeRemaining,
+        },
+      },
+      transfer,
+      resolve: response => {
+        cleanup()
+
+        if (response.type === 'result' && response.colors && response.diagnostics) {
+          const { colors, diagnostics, decode } = response
+          options.onColorCountResolved?.(diagnostics.colorCount)
+          resolve({
+            colors: options.includeNames ? withColorNames(colors) : colors,
+            diagnostics,
+            decode,
+          })
+        } else {
+          // Worker가 메인 스레드 타이머보다 먼저 제한 시간을 감지해도 같은 TimeoutError로 reject
+          try {
+            scope.check()
+            reject(new Error(response.error || 'Unknown error'))
+          } catch (reason) {
+            reject(reason)
+          }
+        }
+      },
+      reject: reason => {
+        cleanup()
+        reject(reason)
       },
     }
 
-    w.postMessage(message)
+    const handleAbort = () => {
+      cancelJob(job)
+      cleanup()
+      reject(scope.signal.reason)
+    }
+
+    scope.signal.addEventListener('abort', handleAbort, { once: true })
+    enqueue(job)
   })
 }
 
 /**
- * Worker 정리
+ * 모든 Worker 종료
+ * 처리 중이거나 대기 중인 요청은 AbortError로 reject되며, 다음 요청에서 풀을 다시 만듦
  */
 export function terminateWorker(): void {
-  if (worker) {
-    worker.terminate()
-    worker = null
-  }
+  terminatePool(new DOMException('Worker pool was terminated', 'AbortError'))
 }
 
 /**
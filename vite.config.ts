@@ -10,15 +10,19 @@ export default defineConfig({
     tailwindcss(),
     dts({
       insertTypesEntry: true,
+      tsconfigPath: './tsconfig.app.json',
       include: ['src/lib/**/*'],
     }),
   ],
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/lib/index.ts'),
+      entry: {
+        chamelo: resolve(__dirname, 'src/lib/index.ts'),
+        core: resolve(__dirname, 'src/lib/core.ts'),
+      },
       name: 'Chamelo',
       formats: ['es', 'cjs'],
-      fileName: (format) => `chamelo.${format === 'es' ? 'mjs' : 'cjs'}`,
+      fileName: (format, entryName) => `${entryName}.${format === 'es' ? 'mjs' : 'cjs'}`,
     },
     rollupOptions: {
       external: ['react', 'react-dom'],